@@ -0,0 +1,494 @@
+import { timingSafeEqual } from "crypto";
+import EventEmitter from "events";
+import http, { IncomingMessage, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { Duplex } from "stream";
+import { Bulb } from "./bulb";
+import { BulbRegistry } from "./bulb-registry";
+import { DEFAULT_BRIDGE_PORT, MAX_BRIDGE_BODY_BYTES } from "./constants";
+import { DiscoveryService } from "./discovery-service";
+import { decodePilot, pickPilot } from "./pilot";
+import { ErrorMode, unwrapOutcome } from "./result";
+import { TypeDiagnostic, TypeTemplate, validate } from "./type-checker";
+import {
+	GetSceneArgs,
+	Pilot,
+	pilotTemplate,
+	sceneArgsTemplate,
+	SyncPilotResponse,
+} from "./types";
+import { normalizeMac } from "./utils";
+import { WebSocketConnection } from "./websocket";
+import { WikariError, WikariErrorCode } from "./wikari-error";
+
+/**
+ * Where a {@link BridgeServer} gets it's bulbs from. Bulbs in a map
+ * are keyed by their MAC address.
+ */
+export type BridgeBulbSource<M extends ErrorMode = "throw"> =
+	| BulbRegistry<M>
+	| DiscoveryService<M>
+	| Map<string, Bulb<M>>;
+
+export type BridgeServerOptions<M extends ErrorMode = "throw"> = {
+	bulbs: BridgeBulbSource<M>;
+	// if set, every request has to carry it as a bearer token
+	token?: string;
+	// subscribe to the bulbs so that they push their state, true by default
+	subscribe?: boolean;
+	// the origin allowed to make requests from a browser, e.g. "*"
+	allowOrigin?: string;
+};
+
+export type BridgeServerEvents = {
+	error: (error: unknown) => void;
+};
+
+export declare interface BridgeServer<M extends ErrorMode = "throw"> {
+	on<E extends keyof BridgeServerEvents>(
+		event: E,
+		listener: BridgeServerEvents[E],
+	): this;
+	once<E extends keyof BridgeServerEvents>(
+		event: E,
+		listener: BridgeServerEvents[E],
+	): this;
+	off<E extends keyof BridgeServerEvents>(
+		event: E,
+		listener: BridgeServerEvents[E],
+	): this;
+	emit<E extends keyof BridgeServerEvents>(
+		event: E,
+		...args: Parameters<BridgeServerEvents[E]>
+	): boolean;
+}
+
+type KnownBulb<M extends ErrorMode> = {
+	mac: string;
+	bulb: Bulb<M>;
+	name?: string;
+	room?: string;
+};
+
+class HttpError extends Error {
+	readonly status: number;
+	readonly diagnostics: TypeDiagnostic[] | undefined;
+
+	constructor(status: number, message: string, diagnostics?: TypeDiagnostic[]) {
+		super(message);
+		this.status = status;
+		this.diagnostics = diagnostics;
+	}
+}
+
+const errorStatus = (error: WikariError) => {
+	switch (error.code) {
+		case WikariErrorCode.ArgumentOutOfRange:
+		case WikariErrorCode.InvalidArgument:
+			return 400;
+		case WikariErrorCode.UnsupportedOperation:
+			return 422;
+		case WikariErrorCode.RequestTimedOut:
+			return 504;
+		case WikariErrorCode.InvalidBulbState:
+		case WikariErrorCode.SocketBindFailed:
+			return 503;
+		default:
+			return 502;
+	}
+};
+
+const decodeSegment = (segment: string) => {
+	try {
+		return decodeURIComponent(segment);
+	} catch {
+		throw new HttpError(400, `Malformed path segment '${segment}'`);
+	}
+};
+
+const readJson = (req: IncomingMessage) =>
+	new Promise<unknown>((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		let size = 0;
+
+		req.on("data", (chunk: Buffer) => {
+			size += chunk.length;
+			if (size <= MAX_BRIDGE_BODY_BYTES) chunks.push(chunk);
+		});
+		req.on("error", reject);
+		req.on("end", () => {
+			if (size > MAX_BRIDGE_BODY_BYTES)
+				return reject(new HttpError(413, "The body is too large"));
+
+			try {
+				resolve(JSON.parse(Buffer.concat(chunks).toString()));
+			} catch {
+				reject(new HttpError(400, "The body must be valid JSON"));
+			}
+		});
+	});
+
+// checks a body against the template a bulb method uses, rejecting
+// fields that the template does not know about
+const validateBody = (template: TypeTemplate, body: unknown) => {
+	const diagnostics = validate(template, body);
+
+	if (typeof body == "object" && body != null && !Array.isArray(body))
+		for (const [key, value] of Object.entries(body))
+			if (!(key in template))
+				diagnostics.push({
+					path: key,
+					expected: "no such field",
+					received: value,
+					message: `${key}: unknown field`,
+				});
+
+	if (diagnostics.length)
+		throw new HttpError(
+			400,
+			diagnostics.map(d => d.message).join(", "),
+			diagnostics,
+		);
+};
+
+/**
+ * Exposes bulbs over HTTP and WebSocket, for clients that cannot speak
+ * the UDP protocol of the bulbs, such as browsers.
+ *
+ * * `GET /bulbs` lists the bulbs along with their last known state
+ * * `GET /bulbs/:mac` fetches the state of a bulb
+ * * `PATCH /bulbs/:mac` sets the pilot of a bulb, see {@link Bulb.setPilot}
+ * * `POST /bulbs/:mac/scene` sets a scene, with a body like
+ *   `{ "sceneId": 1, "speed": 50 }`, see {@link Bulb.scene}
+ * * `/ws` is a WebSocket that pushes every `syncPilot` message of the
+ *   bulbs as `{ "type": "sync", "mac": ..., "pilot": ..., "state": ... }`
+ *
+ * Bodies are validated with the same templates the bulb methods use, and
+ * rejected with a 400 that lists what is wrong with them. Bulbs can be
+ * referred to by their MAC address, or by their name when the bulbs come
+ * from a {@link BulbRegistry}.
+ *
+ * When a token is set, requests have to send it in an
+ * `Authorization: Bearer <token>` header, or as a `token` query
+ * parameter, since browsers cannot set headers on WebSockets.
+ *
+ * @example
+ * ```ts
+ * const registry = await BulbRegistry.load("bulbs.json");
+ * const bridge = new BridgeServer({ bulbs: registry, token: "secret" });
+ * await bridge.listen(8080);
+ * ```
+ *
+ * The server can also be mounted on an existing HTTP server by passing
+ * it's requests to {@link BridgeServer.handleRequest} and
+ * {@link BridgeServer.handleUpgrade}, after calling
+ * {@link BridgeServer.start}.
+ */
+export class BridgeServer<M extends ErrorMode = "throw"> extends EventEmitter {
+	readonly source: BridgeBulbSource<M>;
+	readonly token: string | undefined;
+	readonly subscribe: boolean;
+	readonly allowOrigin: string | undefined;
+
+	private server: http.Server | undefined;
+	private running = false;
+	private readonly watched = new Map<Bulb<M>, () => void>();
+	private readonly connections = new Set<WebSocketConnection>();
+
+	constructor(options: BridgeServerOptions<M>) {
+		super();
+		this.source = options.bulbs;
+		this.token = options.token;
+		this.subscribe = options.subscribe ?? true;
+		this.allowOrigin = options.allowOrigin;
+	}
+
+	/**
+	 * Starts an HTTP server for the bridge.
+	 * @param port the port to listen on, 0 for any free port
+	 * @param host the address to listen on, every address if not provided
+	 * @returns the port the server is listening on
+	 */
+	async listen(port = DEFAULT_BRIDGE_PORT, host?: string): Promise<number> {
+		const server = http.createServer((req, res) =>
+			this.handleRequest(req, res),
+		);
+		server.on("upgrade", (req, socket) => this.handleUpgrade(req, socket));
+
+		await new Promise<void>((resolve, reject) => {
+			server.once("error", reject);
+			server.listen(port, host, () => {
+				server.off("error", reject);
+				resolve();
+			});
+		});
+
+		this.server = server;
+		this.start();
+		return (server.address() as AddressInfo).port;
+	}
+
+	/**
+	 * Starts pushing the state of the bulbs to WebSocket clients,
+	 * subscribing to the bulbs if the `subscribe` option is set.
+	 * This is done by {@link BridgeServer.listen}.
+	 */
+	start() {
+		if (this.running) return;
+
+		this.running = true;
+		if (this.source instanceof DiscoveryService)
+			this.source.on("bulb-found", this.refresh);
+		this.refresh();
+	}
+
+	/**
+	 * Stops pushing the state of the bulbs, closes every WebSocket and
+	 * the HTTP server, if the bridge has one.
+	 */
+	async close() {
+		this.running = false;
+		if (this.source instanceof DiscoveryService)
+			this.source.off("bulb-found", this.refresh);
+
+		const unsubscribing: Promise<void>[] = [];
+		for (const [bulb, dispose] of this.watched) {
+			dispose();
+			if (this.subscribe)
+				unsubscribing.push(
+					bulb
+						.unsubscribe()
+						.then(outcome => {
+							unwrapOutcome(bulb.client.errors, outcome);
+						})
+						.catch(error => this.emitError(error)),
+				);
+		}
+		this.watched.clear();
+		await Promise.all(unsubscribing);
+
+		for (const connection of this.connections) connection.close();
+
+		const server = this.server;
+		this.server = undefined;
+		if (server)
+			await new Promise<void>(resolve => server.close(() => resolve()));
+	}
+
+	/**
+	 * Handles a request of the REST API.
+	 */
+	handleRequest(req: IncomingMessage, res: ServerResponse) {
+		if (this.allowOrigin) {
+			res.setHeader("Access-Control-Allow-Origin", this.allowOrigin);
+			res.setHeader(
+				"Access-Control-Allow-Headers",
+				"Authorization, Content-Type",
+			);
+			res.setHeader("Access-Control-Allow-Methods", "GET, PATCH, POST");
+		}
+
+		this.route(req)
+			.then(([status, body]) => this.respond(res, status, body))
+			.catch((error: unknown) => {
+				if (error instanceof HttpError)
+					return this.respond(res, error.status, {
+						error: { message: error.message, diagnostics: error.diagnostics },
+					});
+
+				if (error instanceof WikariError)
+					return this.respond(res, errorStatus(error), {
+						error: { code: error.code, message: error.message },
+					});
+
+				this.emitError(error);
+				this.respond(res, 500, { error: { message: "Internal error" } });
+			});
+	}
+
+	/**
+	 * Handles an upgrade request, accepting WebSockets on `/ws`.
+	 */
+	handleUpgrade(req: IncomingMessage, socket: Duplex) {
+		const { pathname } = new URL(req.url ?? "/", "http://localhost");
+		if (pathname != "/ws")
+			return socket.end("HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n");
+		if (!this.authorized(req))
+			return socket.end(
+				"HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n",
+			);
+
+		const connection = WebSocketConnection.accept(req, socket);
+		if (!connection) return;
+
+		this.connections.add(connection);
+		connection.on("close", () => this.connections.delete(connection));
+	}
+
+	private async route(req: IncomingMessage): Promise<[number, unknown]> {
+		if (req.method == "OPTIONS") return [204, undefined];
+		if (!this.authorized(req)) throw new HttpError(401, "Unauthorized");
+
+		const { pathname } = new URL(req.url ?? "/", "http://localhost");
+		const [collection, id, action, ...rest] = pathname
+			.split("/")
+			.filter(Boolean)
+			.map(decodeSegment);
+
+		if (collection != "bulbs" || rest.length)
+			throw new HttpError(404, "Not found");
+
+		if (id == undefined) {
+			this.expectMethod(req, "GET");
+			return [
+				200,
+				[...this.bulbs().values()].map(known => this.describe(known)),
+			];
+		}
+
+		const known = this.find(id);
+		if (!known) throw new HttpError(404, `No bulb found for '${id}'`);
+		const { bulb } = known;
+		const { errors } = bulb.client;
+
+		if (action == undefined) {
+			if (req.method == "PATCH") {
+				const body = await readJson(req);
+				validateBody(pilotTemplate, body);
+
+				unwrapOutcome(errors, await bulb.setPilot(body as Pilot));
+				return [200, this.describe(known)];
+			}
+
+			this.expectMethod(req, "GET");
+			const { result } = unwrapOutcome(errors, await bulb.getPilot());
+			return [200, this.describe(known, pickPilot(result))];
+		}
+
+		if (action != "scene") throw new HttpError(404, "Not found");
+		this.expectMethod(req, "POST");
+
+		const body = await readJson(req);
+		validateBody(sceneArgsTemplate, body);
+
+		const { sceneId, ...args } = body as { sceneId: number };
+		unwrapOutcome(
+			errors,
+			await bulb.scene(sceneId, args as GetSceneArgs<number>),
+		);
+		return [200, this.describe(known)];
+	}
+
+	private expectMethod(req: IncomingMessage, method: string) {
+		if (req.method != method)
+			throw new HttpError(405, `Method ${req.method} is not allowed`);
+	}
+
+	private authorized(req: IncomingMessage) {
+		if (this.token == undefined) return true;
+
+		const header = req.headers.authorization;
+		const provided = header?.startsWith("Bearer ")
+			? header.slice("Bearer ".length)
+			: new URL(req.url ?? "/", "http://localhost").searchParams.get("token");
+		if (provided == undefined) return false;
+
+		const expected = Buffer.from(this.token);
+		const actual = Buffer.from(provided);
+		return (
+			actual.length == expected.length && timingSafeEqual(actual, expected)
+		);
+	}
+
+	private respond(res: ServerResponse, status: number, body: unknown) {
+		if (body == undefined) return res.writeHead(status).end();
+
+		res.writeHead(status, { "Content-Type": "application/json" });
+		res.end(JSON.stringify(body));
+	}
+
+	private describe(
+		{ mac, bulb, name, room }: KnownBulb<M>,
+		pilot = bulb.pilot,
+	) {
+		return {
+			mac,
+			address: bulb.address,
+			name,
+			room,
+			online: bulb.online,
+			pilot: pilot ?? null,
+			state: pilot ? decodePilot(pilot) : null,
+		};
+	}
+
+	// the bulbs of the source, keyed by MAC address
+	private bulbs() {
+		const bulbs = new Map<string, KnownBulb<M>>();
+		const source = this.source;
+
+		if (source instanceof BulbRegistry) {
+			for (const { mac, name, room } of source.list())
+				bulbs.set(mac, { mac, bulb: source.bulb(mac) as Bulb<M>, name, room });
+		} else {
+			const entries =
+				source instanceof DiscoveryService ? source.bulbs : source;
+			for (const [mac, bulb] of entries)
+				bulbs.set(normalizeMac(mac), { mac: normalizeMac(mac), bulb });
+		}
+
+		if (this.running) for (const known of bulbs.values()) this.watch(known);
+		return bulbs;
+	}
+
+	private find(id: string) {
+		const bulbs = this.bulbs();
+		const known = bulbs.get(normalizeMac(id));
+		if (known) return known;
+
+		// names are only known to registries
+		if (this.source instanceof BulbRegistry) {
+			const entry = this.source.get(id);
+			if (entry) return bulbs.get(entry.mac);
+		}
+	}
+
+	// picks up bulbs that were added to the source since the last time
+	private readonly refresh = () => {
+		this.bulbs();
+	};
+
+	private watch({ mac, bulb }: KnownBulb<M>) {
+		if (this.watched.has(bulb)) return;
+
+		this.watched.set(
+			bulb,
+			bulb.onSync((msg: SyncPilotResponse) => {
+				const pilot = pickPilot(msg.params);
+				this.broadcast({
+					type: "sync",
+					mac,
+					src: msg.params.src,
+					pilot,
+					state: decodePilot(pilot),
+				});
+			}),
+		);
+
+		if (this.subscribe)
+			bulb
+				.subscribe()
+				.then(outcome => unwrapOutcome(bulb.client.errors, outcome))
+				.catch(error => this.emitError(error));
+	}
+
+	private broadcast(message: object) {
+		const text = JSON.stringify(message);
+		for (const connection of this.connections) connection.send(text);
+	}
+
+	private emitError(error: unknown) {
+		// emitting "error" without a listener would throw
+		if (this.listenerCount("error")) this.emit("error", error);
+	}
+}
@@ -0,0 +1,210 @@
+import { Bulb } from "./bulb";
+import { ColorInput, ColorOptions } from "./color";
+import { ErrorMode, Outcome, Result } from "./result";
+import { TransitionOptions } from "./transition";
+import { GenericResponse, GetSceneArgs, Pilot, RequestOptions } from "./types";
+import { WikariError } from "./wikari-error";
+
+/**
+ * The outcome of a group operation, with an entry for every bulb in the
+ * group holding either the response from that bulb or the
+ * {@link WikariError} it failed with. This is the same whatever the error
+ * mode of the bulbs is.
+ */
+export type GroupResult<
+	T = GenericResponse,
+	M extends ErrorMode = "throw",
+> = Map<Bulb<M>, T | WikariError>;
+
+/**
+ * Allows you to control many bulbs as a single unit.
+ *
+ * Every operation sends it's packets to all the bulbs before waiting for
+ * any of the responses, and resolves once every bulb has either responded
+ * or failed. A failing bulb never prevents the others from being updated.
+ *
+ * @example
+ * ```ts
+ * const livingRoom = new BulbGroup(await discover({}));
+ * const results = await livingRoom.color("#f44336");
+ *
+ * for (const [bulb, result] of results)
+ *   if (result instanceof WikariError)
+ *     console.log(`${bulb.address} failed: ${result.message}`);
+ * ```
+ */
+export class BulbGroup<M extends ErrorMode = "throw"> {
+	private readonly members: Set<Bulb<M>>;
+
+	constructor(bulbs: Iterable<Bulb<M>> = []) {
+		this.members = new Set(bulbs);
+	}
+
+	/**
+	 * @returns the bulbs in this group
+	 */
+	get bulbs() {
+		return [...this.members];
+	}
+
+	get size() {
+		return this.members.size;
+	}
+
+	add(...bulbs: Bulb<M>[]) {
+		for (const bulb of bulbs) this.members.add(bulb);
+		return this;
+	}
+
+	remove(...bulbs: Bulb<M>[]) {
+		for (const bulb of bulbs) this.members.delete(bulb);
+		return this;
+	}
+
+	has(bulb: Bulb<M>) {
+		return this.members.has(bulb);
+	}
+
+	/**
+	 * Turns every bulb in the group on or off.
+	 * @param state new state of the bulbs
+	 */
+	turn(state: boolean) {
+		return this.run(bulb => bulb.turn(state));
+	}
+
+	/**
+	 * Toggles the group as a whole, rather than every bulb on it's own.
+	 *
+	 * If the majority of the bulbs that responded are on, every bulb is
+	 * turned off. Otherwise, every bulb is turned on. This way, a group
+	 * that is partially on always ends up in a consistent state.
+	 *
+	 * If none of the bulbs respond, the errors from fetching their state
+	 * are returned and nothing else is sent.
+	 */
+	async toggle(): Promise<GroupResult<GenericResponse, M>> {
+		const pilots = await this.run(bulb => bulb.getPilot());
+
+		let on = 0;
+		let responded = 0;
+		for (const pilot of pilots.values()) {
+			if (pilot instanceof WikariError) continue;
+			responded++;
+			if (pilot.result.state) on++;
+		}
+
+		// every entry is an error at this point
+		if (!responded) return pilots as GroupResult<GenericResponse, M>;
+
+		return this.turn(on * 2 <= responded);
+	}
+
+	/**
+	 * Sets the scene on every bulb in the group, see {@link Bulb.scene}.
+	 * @param sceneId scene ID from 1 to 32 (both inclusive)
+	 * @param args arguments associated with @param sceneId
+	 */
+	scene<T extends number>(sceneId: T, args: GetSceneArgs<T> = {}) {
+		return this.run(bulb => bulb.scene(sceneId, args));
+	}
+
+	/**
+	 * Sets the brightness of every bulb in the group.
+	 * @param brightness brightness in the range 0-100
+	 */
+	brightness(brightness: number) {
+		return this.run(bulb => bulb.brightness(brightness));
+	}
+
+	/**
+	 * Changes every bulb in the group to a certain temperature of white,
+	 * see {@link Bulb.white}.
+	 * @param temp temperature in kelvin
+	 */
+	white(temp: number) {
+		return this.run(bulb => bulb.white(temp));
+	}
+
+	/**
+	 * Sets every bulb in the group to a certain color,
+	 * see {@link Bulb.color}.
+	 * @param color the color to set
+	 * @param options the options of {@link Bulb.color}
+	 */
+	color(color: ColorInput, options: ColorOptions = {}) {
+		return this.run(bulb => bulb.color(color, options));
+	}
+
+	/**
+	 * Sets the pilot of every bulb in the group.
+	 * @param pilot the new pilot
+	 * @param options per-request timeout and retry settings
+	 */
+	setPilot(pilot: Pilot, options?: RequestOptions) {
+		return this.run(bulb => bulb.setPilot(pilot, options));
+	}
+
+	/**
+	 * Runs a transition on every bulb in the group, each starting from it's
+	 * own current state, see {@link Bulb.transition}.
+	 * @param target the pilot to end at
+	 * @param options duration, easing, frame rate and abort signal
+	 */
+	transition(target: Pilot, options: TransitionOptions) {
+		return this.run(bulb => bulb.transition(target, options));
+	}
+
+	/**
+	 * Cancels the running transition of every bulb in the group.
+	 */
+	cancelTransition() {
+		for (const bulb of this.members) bulb.cancelTransition();
+	}
+
+	/**
+	 * Fetches the pilot of every bulb in the group.
+	 * @param options per-request timeout and retry settings
+	 */
+	getPilot(options?: RequestOptions) {
+		return this.run(bulb => bulb.getPilot(options));
+	}
+
+	/**
+	 * Calls the given function for every bulb in the group and collects the
+	 * results. The function is called for every bulb before any of the
+	 * results are awaited, so all the requests are in flight at once.
+	 *
+	 * Thrown and returned {@link WikariError}s end up in the result, and so
+	 * do the errors of failed {@link Result}s from bulbs in the result mode.
+	 * Any other error is rethrown.
+	 *
+	 * @param fn function to call for every bulb
+	 * @returns the result for every bulb
+	 */
+	async run<T>(
+		fn: (bulb: Bulb<M>) => Promise<Outcome<M, T> | WikariError>,
+	): Promise<GroupResult<T, M>> {
+		const bulbs = this.bulbs;
+		const settled = await Promise.allSettled(bulbs.map(fn));
+
+		const results: GroupResult<T, M> = new Map();
+		settled.forEach((outcome, i) => {
+			const bulb = bulbs[i];
+
+			if (outcome.status == "fulfilled") {
+				const { value } = outcome;
+				if (bulb.client.errors != "result" || value instanceof WikariError)
+					results.set(bulb, value as T | WikariError);
+				else {
+					const result = value as Result<T>;
+					results.set(bulb, result.ok ? result.value : result.error);
+				}
+			} else if (outcome.reason instanceof WikariError)
+				results.set(bulb, outcome.reason);
+			else throw outcome.reason;
+		});
+
+		return results;
+	}
+}
@@ -0,0 +1,313 @@
+import fs from "fs/promises";
+import { Bulb, ClientOptionsParameters } from "./bulb";
+import { WIZ_BULB_LISTEN_PORT } from "./constants";
+import { DiscoverOptions, probe } from "./discover";
+import { ErrorMode } from "./result";
+import { makeTypeTemplate, validate } from "./type-checker";
+import { normalizeMac } from "./utils";
+import { WikariError, WikariErrorCode } from "./wikari-error";
+
+export const registryEntryTemplate = makeTypeTemplate({
+	mac: ["string", true],
+	// last known IP address
+	address: ["string", true],
+	name: ["string", false],
+	room: ["string", false],
+});
+
+/**
+ * A bulb stored in a {@link BulbRegistry}.
+ */
+export type RegistryEntry = {
+	mac: string;
+	address: string;
+	name?: string;
+	room?: string;
+};
+
+export type RegistryOptions<M extends ErrorMode = "throw"> = {
+	// the file to save the registry to by default
+	path?: string;
+	// entries to start with
+	entries?: RegistryEntry[];
+} & ([M] extends ["throw"]
+	? {
+			// options used when discovering bulbs and resolving addresses
+			discover?: DiscoverOptions<M>;
+	  }
+	: {
+			// options used when discovering bulbs and resolving addresses,
+			// which have to include the client of the bulbs
+			discover: DiscoverOptions<M>;
+	  });
+
+const REGISTRY_FILE_VERSION = 1;
+
+/**
+ * Keeps track of bulbs by their MAC address, along with user-assigned
+ * names and rooms, and can be saved to and loaded from a JSON file.
+ *
+ * Bulbs obtained from the registry re-resolve their address through
+ * discovery when a request to their last known address times out, so
+ * they keep working when the router gives them a new IP address.
+ *
+ * @example
+ * ```ts
+ * const registry = await BulbRegistry.load("bulbs.json");
+ *
+ * // add every bulb on the network, keeping existing names and rooms
+ * await registry.addFromDiscovery();
+ * registry.update("a8bb50d46a1c", { name: "desk", room: "office" });
+ * await registry.save();
+ *
+ * await registry.bulb("desk")?.turn(true);
+ * ```
+ */
+export class BulbRegistry<M extends ErrorMode = "throw"> {
+	/**
+	 * The file the registry is saved to by default.
+	 */
+	path: string | undefined;
+
+	private readonly discoverOptions: DiscoverOptions<M>;
+	private readonly entries = new Map<string, RegistryEntry>();
+	private readonly bulbs = new Map<string, Bulb<M>>();
+	private resolving: Promise<Set<string>> | undefined;
+
+	/**
+	 * @param options see {@link RegistryOptions}
+	 */
+	constructor(...[options]: ClientOptionsParameters<M, RegistryOptions<M>>) {
+		this.path = options?.path;
+		// the discover options can only be left out when M is "throw", in
+		// which case the client is optional as well
+		this.discoverOptions = options?.discover ?? ({} as DiscoverOptions<M>);
+		for (const entry of options?.entries ?? []) this.set(entry);
+	}
+
+	/**
+	 * Loads a registry from a JSON file previously written with
+	 * {@link BulbRegistry.save}. If the file does not exist, an empty
+	 * registry that saves to that path is returned.
+	 *
+	 * @param path the file to load, which the registry saves to by default
+	 * @param options the options of the registry, see {@link RegistryOptions}
+	 */
+	static async load<M extends ErrorMode = "throw">(
+		path: string,
+		...options: ClientOptionsParameters<M, RegistryOptions<M>>
+	): Promise<BulbRegistry<M>> {
+		const registry = new BulbRegistry<M>(...options);
+		registry.path = path;
+
+		let contents: string;
+		try {
+			contents = await fs.readFile(path, "utf-8");
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code == "ENOENT") return registry;
+			throw error;
+		}
+
+		const entries = BulbRegistry.parse(contents);
+		if (entries instanceof Error)
+			throw new WikariError(
+				WikariErrorCode.InvalidArgument,
+				{ argument: "path", provided: path },
+				`'${path}' is not a valid registry file: ${entries.message}`,
+			);
+
+		for (const entry of entries) registry.set(entry);
+		return registry;
+	}
+
+	private static parse(contents: string) {
+		let json: any;
+		try {
+			json = JSON.parse(contents);
+		} catch {
+			return new Error("Invalid JSON");
+		}
+
+		if (
+			typeof json != "object" ||
+			json == null ||
+			json.version != REGISTRY_FILE_VERSION ||
+			!Array.isArray(json.bulbs)
+		)
+			return new Error(`Expected version ${REGISTRY_FILE_VERSION} format`);
+
+		const entries: RegistryEntry[] = [];
+		for (const entry of json.bulbs) {
+			const diagnostics = validate(registryEntryTemplate, entry);
+			if (diagnostics.length)
+				return new Error(
+					`Invalid bulb entry: ${diagnostics.map(d => d.message).join(", ")}`,
+				);
+			entries.push(entry);
+		}
+
+		return entries;
+	}
+
+	/**
+	 * Writes the registry to a JSON file.
+	 * @param path the file to write, defaults to {@link BulbRegistry.path}
+	 */
+	async save(path = this.path) {
+		if (!path)
+			throw new WikariError(
+				WikariErrorCode.InvalidArgument,
+				{ argument: "path", provided: path },
+				"No path to save the registry to",
+			);
+
+		await fs.writeFile(path, JSON.stringify(this, null, "\t") + "\n");
+	}
+
+	toJSON() {
+		return { version: REGISTRY_FILE_VERSION, bulbs: this.list() };
+	}
+
+	/**
+	 * @returns every entry in the registry
+	 */
+	list(): RegistryEntry[] {
+		return [...this.entries.values()].map(entry => ({ ...entry }));
+	}
+
+	/**
+	 * Looks up an entry by MAC address or name.
+	 */
+	get(macOrName: string): RegistryEntry | undefined {
+		const entry =
+			this.entries.get(normalizeMac(macOrName)) ??
+			[...this.entries.values()].find(e => e.name == macOrName);
+
+		return entry && { ...entry };
+	}
+
+	/**
+	 * Adds an entry, or replaces the one with the same MAC address.
+	 */
+	set(entry: RegistryEntry) {
+		const mac = normalizeMac(entry.mac);
+		this.entries.set(mac, { ...entry, mac });
+
+		const bulb = this.bulbs.get(mac);
+		if (bulb) bulb.address = entry.address;
+
+		return this;
+	}
+
+	/**
+	 * Changes the name, room or address of an existing entry.
+	 * @returns false if there is no entry with the given MAC address or name
+	 */
+	update(macOrName: string, changes: Partial<Omit<RegistryEntry, "mac">>) {
+		const entry = this.get(macOrName);
+		if (!entry) return false;
+
+		this.set({ ...entry, ...changes });
+		return true;
+	}
+
+	/**
+	 * Removes an entry by MAC address or name, closing the connection of
+	 * it's bulb if one was created.
+	 * @returns false if there was no such entry
+	 */
+	remove(macOrName: string) {
+		const entry = this.get(macOrName);
+		if (!entry) return false;
+
+		this.entries.delete(entry.mac);
+		this.bulbs.get(entry.mac)?.closeConnection();
+		this.bulbs.delete(entry.mac);
+		return true;
+	}
+
+	/**
+	 * Gets the {@link Bulb} instance for an entry. The same instance is
+	 * returned every time, and it re-resolves it's address through
+	 * discovery when a request to it times out.
+	 *
+	 * @param macOrName the MAC address or name of the bulb
+	 */
+	bulb(macOrName: string): Bulb<M> | undefined {
+		const entry = this.get(macOrName);
+		if (!entry) return undefined;
+
+		let bulb = this.bulbs.get(entry.mac);
+		if (!bulb) {
+			bulb = new Bulb<M>(entry.address, {
+				...this.discoverOptions,
+				port: this.discoverOptions.port ?? WIZ_BULB_LISTEN_PORT,
+				resolveAddress: () => this.resolve(entry.mac),
+			});
+			this.bulbs.set(entry.mac, bulb);
+		}
+
+		return bulb;
+	}
+
+	/**
+	 * @returns the bulbs of every entry in the given room
+	 */
+	room(room: string): Bulb<M>[] {
+		return this.list()
+			.filter(entry => entry.room == room)
+			.map(entry => this.bulb(entry.mac) as Bulb<M>);
+	}
+
+	/**
+	 * Runs discovery, adds the bulbs that are not in the registry yet and
+	 * updates the address of the ones that are.
+	 *
+	 * @returns the entries of the bulbs that were found
+	 */
+	async addFromDiscovery(): Promise<RegistryEntry[]> {
+		const found = await this.refreshAddresses(true);
+		return this.list().filter(entry => found.has(entry.mac));
+	}
+
+	/**
+	 * Looks up the current address of a bulb through discovery, and updates
+	 * the registry with it. Concurrent calls share a single discovery run.
+	 *
+	 * @param mac the MAC address of the bulb
+	 * @returns the current address of the bulb, or undefined if it did not
+	 * respond
+	 */
+	async resolve(mac: string): Promise<string | undefined> {
+		const normalized = normalizeMac(mac);
+		const found = await this.refreshAddresses(false);
+
+		if (found.has(normalized)) return this.entries.get(normalized)?.address;
+	}
+
+	// resolves with the MAC addresses of the bulbs that responded
+	private refreshAddresses(addNew: boolean): Promise<Set<string>> {
+		if (this.resolving && !addNew) return this.resolving;
+
+		const resolving: Promise<Set<string>> = probe(this.discoverOptions)
+			.then(results => {
+				const found = new Set<string>();
+				for (const { mac, address } of results.values()) {
+					const normalized = normalizeMac(mac);
+					const entry = this.entries.get(normalized);
+
+					if (entry) this.set({ ...entry, address });
+					else if (addNew) this.set({ mac, address });
+					found.add(normalized);
+				}
+
+				return found;
+			})
+			.finally(() => {
+				if (this.resolving == resolving) this.resolving = undefined;
+			});
+
+		this.resolving = resolving;
+		return resolving;
+	}
+}
@@ -1,110 +1,358 @@
-import dgram from "dgram";
 import EventEmitter from "events";
 import {
 	DEFAULT_RESPONSE_WAIT_MS,
+	DEFAULT_OFFLINE_AFTER_MS,
+	DEFAULT_RETRY_POLICY,
+	DEFAULT_SUBSCRIPTION_RENEW_MS,
 	SCENES,
-	UDP_BROADCAST_LISTEN_PORT as WIZ_BROADCAST_PORT,
 	WIZ_BULB_LISTEN_PORT,
 } from "./constants";
-import { checkType } from "./type-checker";
+import {
+	checkType,
+	FromTypeTemplate,
+	TypeTemplate,
+	validate,
+} from "./type-checker";
 import {
 	getPilotResponseTemplate,
 	GetPilotResponse,
 	Message,
 	Pilot,
+	pilotTemplate,
 	GetSceneArgs,
+	sceneArgsTemplate,
 	GenericResponse,
 	syncPilotResponseTemplate,
 	SyncPilotAckMsg,
 	setPilotResponseTemplate,
 	SyncPilotResponse,
+	RequestOptions,
+	RetryPolicy,
+	getSystemConfigResponseTemplate,
+	GetSystemConfigResponse,
+	getModelConfigResponseTemplate,
+	GetModelConfigResponse,
+	DeviceInfo,
+	RegistrationMsg,
+	SubscribeOptions,
 } from "./types";
-import { getRandomMac, hexToRgb, ipAddress } from "./utils";
-import { WikariError, WikariErrorCode } from "./wikari-error";
+import { getBackoffDelay, getRandomMac, ipAddress, sleep } from "./utils";
+import { MessageRoute, WikariClient } from "./client";
+import { BulbCapabilities, BulbType, getCapabilities } from "./capabilities";
+import { runTransition, TransitionOptions } from "./transition";
+import { diffPilot, mergePilot, PilotChange, pickPilot } from "./pilot";
+import { UdpTransport } from "./transport";
+import { ColorInput, ColorOptions, toRgbcw } from "./color";
+import { ErrorMode, Outcome, toOutcome } from "./result";
+import { RequestAttempt, WikariError, WikariErrorCode } from "./wikari-error";
+
+export type BulbEvents = {
+	// any message received from the bulb
+	"message": (msg: Message) => void;
+	// a syncPilot message, sent by the bulb after calling Bulb.subscribe
+	"sync": (msg: SyncPilotResponse) => void;
+	// a change to the last known pilot, see Bulb.pilot
+	"state-change": (change: PilotChange) => void;
+	// a subscribed bulb started sending updates again
+	"online": () => void;
+	// a subscribed bulb has not sent anything for a while
+	"offline": () => void;
+	// a message from the bulb could not be handled, or
+	// renewing the subscription failed
+	"error": (error: WikariError) => void;
+};
+
+type Subscription = {
+	listenIp: string;
+	offlineAfterMs: number;
+	renewTimer: ReturnType<typeof setInterval>;
+	livenessTimer: ReturnType<typeof setTimeout> | undefined;
+	disposeSync: () => void;
+};
 
 export const enum WikariState {
 	IDLE,
 	BINDING,
 	READY,
 	CLOSED,
-	AWAITING_RESPONSE,
 }
 
+export type BulbOptions<M extends ErrorMode = "throw"> = {
+	// the port the bulb listens on
+	port?: number;
+	// the port to listen on, if the default client does not exist yet
+	listenPort?: number;
+	responseTimeout?: number;
+	retry?: Partial<RetryPolicy>;
+	capabilities?: BulbCapabilities;
+	resolveAddress?: (bulb: Bulb<M>) => Promise<string | undefined>;
+	macIdentifier?: string;
+} & ClientOption<M>;
+
+/**
+ * The client a bulb uses, {@link WikariClient.default} if not provided.
+ * Since the default client throws, it can only be left out when M is "throw".
+ */
+export type ClientOption<M extends ErrorMode> = [M] extends ["throw"]
+	? { client?: WikariClient<M> }
+	: { client: WikariClient<M> };
+
+/**
+ * The parameters of a function that takes options with a {@link ClientOption},
+ * which can only be left out when M is "throw".
+ */
+export type ClientOptionsParameters<M extends ErrorMode, T> = [M] extends [
+	"throw",
+]
+	? [options?: T]
+	: [options: T];
+
 /**
  * Allows you to interact with a bulb.
  *
- * Note that upon creation, it will have the state {@link WikariState.IDLE}.
- * When the first instance of {@link Bulb} is created, it will try to bind
- * to the port that WiZ bulbs broadcast updates to, and will set it's state
- * to {@link WikariState.BINDING} while this happens.
- *
- * Once it's done, this instance along with all future instances are ready
- * for communication with the bulb, and the state is set to
- * {@link WikariState.READY}.
+ * Every bulb talks to the bulb over the socket of a {@link WikariClient},
+ * which is {@link WikariClient.default} unless the `client` option is
+ * passed. Creating a bulb opens the client if it's not open yet, which
+ * sets the state of the client to {@link WikariState.BINDING} while it
+ * binds to the port that WiZ bulbs send updates to, and to
+ * {@link WikariState.READY} once it's done.
  *
- * Whenever the state of the instance changes, it will emit a "state-change"
- * event on {@link Bulb.stateEmitter} with the new state as the argument.
+ * Since only one socket can be bound to that port, every bulb of a client
+ * shares it's socket. Requests sent over it are tagged with an `id` and
+ * matched to their responses, so any number of them can be awaited at once,
+ * both on the same bulb and across bulbs.
  *
- * Every bulb instance uses the same {@link dgram.Socket} object since each
- * bulb instance requires updates from the same port, we can only bind one
- * socket to the port.
+ * Bulbs report errors the way their client does, see {@link ErrorMode}:
+ * by default every method rejects with a {@link WikariError} when it fails,
+ * while a client created with `errors: "result"` makes them resolve with a
+ * {@link Result} instead.
  */
-export class Bulb {
-	static readonly stateEmitter = new EventEmitter();
-	static client = dgram.createSocket("udp4");
+export class Bulb<M extends ErrorMode = "throw"> {
+	/**
+	 * @deprecated the socket of {@link WikariClient.default}, undefined if
+	 * it does not use a {@link UdpTransport}. Use {@link Bulb.client} instead
+	 */
+	static get client() {
+		const { transport } = WikariClient.default;
+		return transport instanceof UdpTransport ? transport.socket : undefined;
+	}
+
+	/**
+	 * @deprecated emits the "state-change" events of {@link WikariClient.default},
+	 * listen on {@link Bulb.client} instead
+	 */
+	static get stateEmitter(): EventEmitter {
+		return WikariClient.default;
+	}
 
-	private static _state = WikariState.IDLE;
+	/**
+	 * @deprecated the state of {@link WikariClient.default},
+	 * use the state of {@link Bulb.client} instead
+	 */
 	static get state() {
-		return this._state;
+		return WikariClient.default.state;
 	}
 
 	responseTimeout: number | undefined;
-	listenPort: number;
+	retryPolicy: RetryPolicy;
+	/**
+	 * What the bulb is able to do, undefined until
+	 * {@link Bulb.detectCapabilities} has been called or
+	 * it has been passed to the constructor.
+	 *
+	 * When set, the higher-level functions reject operations
+	 * that the bulb does not support before sending anything.
+	 */
+	capabilities: BulbCapabilities | undefined;
+	/**
+	 * Called when a request still times out after all of it's retries,
+	 * to look up the current address of the bulb (e.g. by {@link BulbRegistry}).
+	 * If it returns a different address, {@link Bulb.address} is updated and
+	 * the request is sent again.
+	 */
+	resolveAddress: ((bulb: Bulb<M>) => Promise<string | undefined>) | undefined;
 	bulbPort: number;
+	// the client whose socket is used to talk to the bulb
+	readonly client: WikariClient<M>;
+
+	private transitionController: AbortController | undefined;
+	private readonly events = new EventEmitter();
+	private _pilot: Pilot | undefined;
+	private subscription: Subscription | undefined;
+	private _online: boolean | undefined;
+	private _lastSyncAt: number | undefined;
+	private released = false;
+	private readonly route: MessageRoute = {
+		address: () => this.address,
+		deliver: msg => this.deliver(msg),
+		closed: () => this.stopSubscription(),
+	};
 
 	readonly macIdentifier: string;
-	readonly address: string;
-
-	constructor(
-		address: string,
-		options: {
-			port?: number;
-			listenPort?: number;
-			responseTimeout?: number;
-			macIdentifier?: string;
-		},
-	) {
+	/**
+	 * The IP address of the bulb. This may be updated when the bulb
+	 * is given a new address, e.g. by {@link DiscoveryService}.
+	 */
+	address: string;
+
+	constructor(address: string, options: BulbOptions<M>) {
 		this.address = address;
 		this.bulbPort = options.port ?? WIZ_BULB_LISTEN_PORT;
-		this.listenPort = options.listenPort ?? WIZ_BROADCAST_PORT;
+		// ClientOption only lets the client be left out when M is "throw",
+		// which is the mode of the default client
+		this.client = (options.client ??
+			WikariClient.getDefault(options.listenPort)) as WikariClient<M>;
 		this.macIdentifier = options.macIdentifier ?? getRandomMac();
 		if (options.responseTimeout) this.responseTimeout = options.responseTimeout;
+		this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+		this.capabilities = options.capabilities;
+		this.resolveAddress = options.resolveAddress;
 
-		if (Bulb.state == WikariState.IDLE) this.initClient();
+		this.client.ref();
 	}
 
-	static setInstanceState(state: WikariState) {
-		this._state = state;
-		this.stateEmitter.emit("state-change", state);
+	/**
+	 * The port the client of the bulb listens on.
+	 */
+	get listenPort() {
+		return this.client.listenPort;
+	}
+
+	/**
+	 * The last known pilot of the bulb, or undefined if it is not known yet.
+	 *
+	 * It is seeded by {@link Bulb.getPilot}, and kept up to date by
+	 * successful {@link Bulb.setPilot} calls and, after calling
+	 * {@link Bulb.subscribe}, by the `syncPilot` messages of the bulb.
+	 */
+	get pilot(): Pilot | undefined {
+		return this._pilot && { ...this._pilot };
 	}
 
 	// #######################################################
 	//   High-level end-user oriented interaction functions
 	// #######################################################
 
+	/**
+	 * Listens for an event of this bulb, see {@link BulbEvents}.
+	 *
+	 * ```ts
+	 * const dispose = bulb.on("state-change", ({ changes }) => {
+	 *   console.log(changes);
+	 * });
+	 *
+	 * // later, to stop listening
+	 * dispose();
+	 * ```
+	 *
+	 * @param event the event to listen for
+	 * @param listener called with the arguments of the event
+	 * @returns a function that removes the listener
+	 */
+	on<E extends keyof BulbEvents>(event: E, listener: BulbEvents[E]) {
+		this.events.on(event, listener);
+		this.updateRouting();
+
+		return () => this.off(event, listener);
+	}
+
+	/**
+	 * Like {@link Bulb.on}, but the listener is removed after the
+	 * first time the event is emitted.
+	 * @returns a function that removes the listener
+	 */
+	once<E extends keyof BulbEvents>(event: E, listener: BulbEvents[E]) {
+		this.events.once(event, listener);
+		this.updateRouting();
+
+		return () => this.off(event, listener);
+	}
+
+	/**
+	 * Removes a listener added with {@link Bulb.on} or {@link Bulb.once}.
+	 */
+	off<E extends keyof BulbEvents>(event: E, listener: BulbEvents[E]) {
+		this.events.off(event, listener);
+		this.updateRouting();
+	}
+
+	/**
+	 * Iterates over the changes to the last known pilot of the bulb
+	 * (see {@link Bulb.pilot}), as they happen.
+	 *
+	 * ```ts
+	 * await bulb.subscribe();
+	 *
+	 * for await (const { changes } of bulb.updates({ signal })) {
+	 *   console.log(changes);
+	 * }
+	 * ```
+	 *
+	 * The iteration ends when the signal is aborted, the client is closed
+	 * or {@link Bulb.closeConnection} is called, and changes that happen
+	 * while the loop body is running are queued up. A client that is still
+	 * binding is waited for.
+	 *
+	 * @param options
+	 * * signal: ends the iteration when aborted
+	 */
+	async *updates(
+		options: { signal?: AbortSignal } = {},
+	): AsyncGenerator<PilotChange, void, undefined> {
+		const { signal } = options;
+		if (
+			signal?.aborted ||
+			this.released ||
+			this.client.state == WikariState.CLOSED
+		)
+			return;
+
+		const queue: PilotChange[] = [];
+		let ended = false;
+		let wake: (() => void) | undefined;
+
+		const notify = () => {
+			wake?.();
+			wake = undefined;
+		};
+		const end = () => {
+			ended = true;
+			notify();
+		};
+		const onStateChange = (state: WikariState) => {
+			if (state == WikariState.CLOSED) end();
+		};
+
+		const dispose = this.on("state-change", change => {
+			queue.push(change);
+			notify();
+		});
+		this.client.on("state-change", onStateChange);
+		this.events.once("release", end);
+		signal?.addEventListener("abort", end, { once: true });
+
+		try {
+			while (!ended) {
+				const change = queue.shift();
+				if (change) yield change;
+				else await new Promise<void>(resolve => (wake = resolve));
+			}
+		} finally {
+			dispose();
+			this.client.off("state-change", onStateChange);
+			this.events.off("release", end);
+			signal?.removeEventListener("abort", end);
+		}
+	}
+
 	/**
 	 * Calls the given function with the newly received
 	 * message as the argument.
 	 * @param fn callback for when a message is received
+	 * @returns a function that removes the listener
 	 */
 	onMessage(fn: (msg: Message) => void) {
-		Bulb.client.on("message", (bulbMsg, rinfo) => {
-			if (rinfo.address != this.address) return;
-			try {
-				const msg: Message = JSON.parse(bulbMsg.toString());
-				fn(msg);
-			} catch {}
-		});
+		return this.on("message", fn);
 	}
 
 	/**
@@ -112,15 +360,32 @@ export class Bulb {
 	 * updates about it's state every 5 seconds. The provided
 	 * callback will be called whenever it does so.
 	 * @param fn callback for when a syncPilot message is received
+	 * @returns a function that removes the listener
 	 */
 	onSync(fn: (msg: SyncPilotResponse) => void) {
-		Bulb.client.on("message", (bulbMsg, rinfo) => {
-			if (rinfo.address != this.address) return;
-			try {
-				const msg: Message = JSON.parse(bulbMsg.toString());
-				if (checkType(syncPilotResponseTemplate, msg)) fn(msg);
-			} catch {}
-		});
+		return this.on("sync", fn);
+	}
+
+	/**
+	 * Calls the given function whenever the last known pilot of the bulb
+	 * (see {@link Bulb.pilot}) changes, with the fields that changed and
+	 * what caused the change.
+	 *
+	 * ```ts
+	 * bulb.onChange(({ src, changes }) => {
+	 *   for (const { field, previous, next } of changes)
+	 *     console.log(`${field}: ${previous} -> ${next} (${src})`);
+	 * });
+	 * ```
+	 *
+	 * The first time the pilot becomes known, every field that it has
+	 * is reported as changed.
+	 *
+	 * @param fn callback for when the pilot changes
+	 * @returns a function that removes the listener
+	 */
+	onChange(fn: (change: PilotChange) => void) {
+		return this.on("state-change", fn);
 	}
 
 	/**
@@ -128,59 +393,115 @@ export class Bulb {
 	 * about it's state every 5 seconds. You can intercept these updates with the
 	 * {@link this.onSync} function.
 	 *
-	 * @param networkInterface network interface connected to the network the bulb is on
-	 * @returns subscription message response on success, else a {@link WikariError}
-	 */
-	async subscribe(networkInterface?: string) {
-		const listenIp = ipAddress(networkInterface);
-		if (!listenIp)
-			throw new Error(
-				`Unable to obtain the local IP address ${
-					networkInterface
-						? ` for the network interface '${networkInterface}'`
-						: ""
-				}`,
-			);
+	 * The subscription is kept alive by re-registering every `renewIntervalMs`,
+	 * and the bulb is considered offline (emitting an "offline" event) if it
+	 * does not send anything for `offlineAfterMs`. It is considered online
+	 * again (emitting an "online" event) on the next `syncPilot` message.
+	 *
+	 * ```ts
+	 * bulb.on("offline", () => console.log("the bulb lost power"));
+	 * await bulb.subscribe({ offlineAfterMs: 20_000 });
+	 *
+	 * // later
+	 * await bulb.unsubscribe();
+	 * ```
+	 *
+	 * Calling this again on a subscribed bulb re-registers right away
+	 * with the new options.
+	 *
+	 * @param options the network interface connected to the network the bulb
+	 * is on, or the {@link SubscribeOptions}
+	 * @returns subscription message response
+	 */
+	subscribe(options: string | SubscribeOptions = {}) {
+		return this.outcome(async () => {
+			const {
+				networkInterface = this.client.networkInterface,
+				renewIntervalMs = DEFAULT_SUBSCRIPTION_RENEW_MS,
+				offlineAfterMs = DEFAULT_OFFLINE_AFTER_MS,
+			} = typeof options == "string" ? { networkInterface: options } : options;
 
-		// Sends a subscription message to the bulb
-		// It will now notify us about status changes
-		const result = await this.sendRaw({
-			method: "registration",
-			id: Math.floor(10_000 * Math.random()) + 1,
-			version: 1,
-			params: {
-				register: true,
-				phoneIp: listenIp,
-				phoneMac: this.macIdentifier,
-			},
+			const listenIp =
+				(!networkInterface && this.client.address) ||
+				ipAddress(networkInterface);
+			if (!listenIp)
+				throw new WikariError(
+					WikariErrorCode.InvalidArgument,
+					{ argument: "networkInterface", provided: networkInterface },
+					`Unable to obtain the local IP address${
+						networkInterface
+							? ` for the network interface '${networkInterface}'`
+							: ""
+					}`,
+				);
+
+			// Sends a subscription message to the bulb
+			// It will now notify us about status changes
+			const result = await this.register(true, listenIp);
+
+			const online = this._online;
+			this.stopSubscription();
+			this._online = online;
+
+			const subscription: Subscription = {
+				listenIp,
+				offlineAfterMs,
+				renewTimer: setInterval(
+					() =>
+						this.register(true, listenIp).then(
+							() => this.markAlive(),
+							error => this.emitError(error),
+						),
+					renewIntervalMs,
+				),
+				livenessTimer: undefined,
+				disposeSync: this.on("sync", msg => this.handleSubscriptionSync(msg)),
+			};
+
+			this.subscription = subscription;
+			this.markAlive();
+
+			return result;
 		});
+	}
 
-		if (!(result instanceof WikariError)) {
-			Bulb.client.addListener("message", msg => {
-				try {
-					const response = JSON.parse(msg.toString());
-
-					// if we get a syncPilot message, we send back an
-					// acknowledgement for it, which tells WiZ we are
-					// still interested in it's status updates
-					if (checkType(syncPilotResponseTemplate, response)) {
-						this.sendRaw(
-							{
-								method: "syncPilot",
-								id: response.id,
-								env: response.env,
-								result: {
-									mac: this.macIdentifier,
-								},
-							} as SyncPilotAckMsg,
-							false,
-						);
-					}
-				} catch {}
-			});
-		}
+	/**
+	 * Cancels the subscription made with {@link Bulb.subscribe}, telling the
+	 * bulb to stop sending us updates.
+	 *
+	 * @returns the response to the registration message, or undefined if the
+	 * bulb was not subscribed to
+	 */
+	unsubscribe() {
+		return this.outcome(async () => {
+			const subscription = this.subscription;
+			if (!subscription) return undefined;
+
+			this.stopSubscription();
+			return await this.register(false, subscription.listenIp);
+		});
+	}
+
+	/**
+	 * Whether the bulb has been subscribed to with {@link Bulb.subscribe}.
+	 */
+	get subscribed() {
+		return this.subscription != undefined;
+	}
 
-		return result;
+	/**
+	 * Whether a subscribed bulb is sending it's updates, or undefined
+	 * if it is not subscribed to.
+	 */
+	get online() {
+		return this._online;
+	}
+
+	/**
+	 * When the last `syncPilot` message was received from a subscribed bulb.
+	 */
+	get lastSyncAt() {
+		return this._lastSyncAt && new Date(this._lastSyncAt);
 	}
 
 	/**
@@ -196,23 +517,21 @@ export class Bulb {
 	 * ```
 	 *
 	 * @param state new state of the bulb
-	 * @returns response from the bulb on success, {@link WikariError} otherwise
+	 * @returns response from the bulb
 	 */
-	async turn(state: boolean) {
-		return await this.setPilot({
-			state,
-		});
+	turn(state: boolean) {
+		return this.outcome(() => this.applyPilot({ state }));
 	}
 
 	/**
 	 * Turns the bulb on if it was off, and vice-versa.
-	 * @returns response from the bulb on success, {@link WikariError} otherwise
+	 * @returns response from the bulb
 	 */
-	async toggle() {
-		const pilot = await this.getPilot();
-		if (pilot instanceof WikariError) return pilot;
-
-		return this.setPilot({ state: !pilot.result.state });
+	toggle() {
+		return this.outcome(async () => {
+			const pilot = await this.fetchPilot();
+			return await this.applyPilot({ state: !pilot.result.state });
+		});
 	}
 
 	/**
@@ -227,60 +546,50 @@ export class Bulb {
 	 * Note that the second argument is strongly typed, and will not let
 	 * you set speed or dimming on scenes that do not support them.
 	 *
+	 * If the {@link Bulb.capabilities} are known, scenes that the bulb
+	 * does not support are rejected.
+	 *
 	 * @param sceneId scene ID from 1 to 32 (both inclusive)
 	 * @param args arguments associated with @param sceneId
-	 * @returns response from the bulb on success, {@link WikariError} otherwise
+	 * @returns response from the bulb
 	 */
-	async scene<T extends number>(sceneId: T, args: GetSceneArgs<T> = {}) {
-		if (sceneId < 1 || sceneId > 32)
-			return new WikariError(
-				WikariErrorCode.ArgumentOutOfRange,
-				{
-					argument: "sceneId",
-					lowerLimit: 1,
-					higherLimit: 32,
-					provided: sceneId,
-				},
-				"Scene ID must be in the range 1 <> 32",
-			);
+	scene<T extends number>(sceneId: T, args: GetSceneArgs<T> = {}) {
+		return this.outcome(async () => {
+			const invalid = this.invalidArgument(sceneArgsTemplate, {
+				sceneId,
+				...args,
+			});
+			if (invalid) throw invalid;
 
-		for (const [key, value] of Object.entries(args)) {
-			if (key == "speed" || key == "dimming") {
-				const v = value as number;
-				if (v < 1 || v > 100)
-					return new WikariError(
-						WikariErrorCode.ArgumentOutOfRange,
-						{
-							argument: key,
-							lowerLimit: 1,
-							higherLimit: 100,
-							provided: v,
-						},
-						`Optional argument ${key} must be in the range 1 <> 100`,
-					);
-			}
-		}
+			if (this.capabilities && !this.capabilities.scenes.includes(sceneId))
+				throw this.unsupported(`scene ${sceneId}`);
 
-		return await this.setPilot({
-			sceneId,
-			...args,
+			return await this.applyPilot({
+				sceneId,
+				...args,
+			});
 		});
 	}
 
-	async brightness(brightness: number) {
-		if (brightness < 0 || brightness > 100)
-			return new WikariError(
-				WikariErrorCode.ArgumentOutOfRange,
-				{
-					argument: "brightness",
-					lowerLimit: 0,
-					higherLimit: 100,
-					provided: brightness,
-				},
-				"Brightness must be in the range 0-100",
+	/**
+	 * Changes the brightness of the bulb.
+	 * @param brightness range 0 to 100 (both inclusive), is a percentage
+	 * @returns response from the bulb
+	 */
+	brightness(brightness: number) {
+		return this.outcome(async () => {
+			if (this.capabilities && !this.capabilities.dimming)
+				throw this.unsupported("brightness");
+
+			// checked under it's own name, rather than as dimming
+			const invalid = this.invalidArgument(
+				{ brightness: pilotTemplate.dimming },
+				{ brightness },
 			);
+			if (invalid) throw invalid;
 
-		return await this.setPilot({ dimming: brightness });
+			return await this.applyPilot({ dimming: brightness });
+		});
 	}
 
 	/**
@@ -288,24 +597,24 @@ export class Bulb {
 	 * ```ts
 	 * bulb.white(5000);
 	 * ```
-	 * @param temp temperature, range 1000 to 10_000 (both inclusive)
-	 * @returns response from the bulb on success, {@link WikariError} otherwise
+	 * @param temp temperature, range 1000 to 10_000 (both inclusive), or
+	 * the range in {@link Bulb.capabilities} if it is known
+	 * @returns response from the bulb
 	 */
-	async white(temp: number): Promise<GenericResponse> {
-		if (temp < 1000 || temp > 10_000)
-			throw new WikariError(
-				WikariErrorCode.ArgumentOutOfRange,
-				{
-					argument: "temp",
-					lowerLimit: 1000,
-					higherLimit: 10_000,
-					provided: temp,
-				},
-				"Temperature must be in the range 1000 <> 10_000",
+	white(temp: number) {
+		return this.outcome(async () => {
+			if (this.capabilities && !this.capabilities.colorTemperature)
+				throw this.unsupported("white");
+
+			const { min, max } =
+				this.capabilities?.kelvinRange ?? pilotTemplate.temp[2];
+			const invalid = this.invalidArgument(
+				{ temp: ["number", true, { min, max }] },
+				{ temp },
 			);
+			if (invalid) throw invalid;
 
-		return await this.setPilot({
-			temp,
+			return await this.applyPilot({ temp });
 		});
 	}
 
@@ -318,180 +627,294 @@ export class Bulb {
 	 *
 	 * // set the bulb to some red and some warm white
 	 * await bulb.color({ r: 100, w: 50 });
+	 *
+	 * // or with any other kind of color
+	 * await bulb.color("tomato");
+	 * await bulb.color("rgb(244, 67, 54)");
+	 * await bulb.color({ h: 4, s: 78, v: 96 });
+	 *
+	 * // show a pastel color with the white LEDs
+	 * await bulb.color("#fcc", { perceptual: true });
 	 * ```
 	 *
 	 * Here, c is the cool white component and w is the warm white
 	 * component.
 	 *
-	 * When passing an object, each value must be in the range 0-255
-	 * (both inclusive).
+	 * When passing an rgbcw object, each value must be in the range 0-255
+	 * (both inclusive). See {@link ColorInput} for the other kinds of
+	 * colors, and {@link toPerceptualRgbcw} for the perceptual option.
 	 *
-	 * @param color a hex color code, or an rgbcw object
-	 * @returns response from the bulb on success, {@link WikariError} otherwise
+	 * If the {@link Bulb.capabilities} are known, setting r, g or b on a
+	 * bulb without color support, or c or w on a bulb without tunable
+	 * white, is rejected.
+	 *
+	 * @param color the color to set
+	 * @param options
+	 * * perceptual: use the white LEDs for the white part of the color
+	 * @returns response from the bulb
 	 */
-	async color(
-		color:
-			| { r?: number; g?: number; b?: number; c?: number; w?: number }
-			| `#${string}`,
-	): Promise<GenericResponse> {
-		if (typeof color == "string") {
-			const rgbColor = hexToRgb(color);
-			if (rgbColor instanceof Error) throw rgbColor;
+	color(color: ColorInput, options: ColorOptions = {}) {
+		return this.outcome(async () => {
+			const rgbcw = toRgbcw(color, options);
 
-			return await this.setPilot(rgbColor);
-		} else {
-			for (const [key, value] of Object.entries(color)) {
-				if (value < 0 || value > 255) {
-					throw new WikariError(
-						WikariErrorCode.ArgumentOutOfRange,
-						{
-							argument: key,
-							lowerLimit: 0,
-							higherLimit: 255,
-							provided: value,
-						},
-						`'${key}' must be in the range 0 <> 255`,
-					);
-				}
+			if (this.capabilities) {
+				const keys = Object.keys(rgbcw);
+				const needsColor = keys.some(k => k == "r" || k == "g" || k == "b");
+				const needsWhite = keys.some(k => k == "c" || k == "w");
+
+				if (needsColor && !this.capabilities.color)
+					throw this.unsupported("color");
+				// c and w drive the white LEDs, which only tunable white bulbs have
+				if (needsWhite && !this.capabilities.colorTemperature)
+					throw this.unsupported("white");
 			}
 
-			return await this.setPilot(color);
-		}
+			return await this.applyPilot(rgbcw);
+		});
+	}
+
+	/**
+	 * Smoothly changes the bulb to the given pilot over time, since
+	 * the bulbs themselves have no fade duration.
+	 *
+	 * ```ts
+	 * // fade to red over two seconds
+	 * await bulb.transition({ r: 255, g: 0, b: 0 }, { durationMs: 2000 });
+	 *
+	 * // fade out and turn off
+	 * await bulb.transition({ state: false }, { durationMs: 1000 });
+	 * ```
+	 *
+	 * Starting a new transition cancels the one that is running on this
+	 * bulb, if any. See {@link interpolatePilot} for which parts of the
+	 * pilot are interpolated.
+	 *
+	 * @param target the pilot to end at
+	 * @param options duration, easing, frame rate and abort signal
+	 * @returns true if the transition completed, false if it was
+	 * cancelled or superseded by a newer one
+	 */
+	transition(target: Pilot, options: TransitionOptions) {
+		return this.outcome(async () => {
+			this.cancelTransition();
+
+			const controller = new AbortController();
+			this.transitionController = controller;
+
+			const onAbort = () => controller.abort();
+			options.signal?.addEventListener("abort", onAbort, { once: true });
+			if (options.signal?.aborted) controller.abort();
+
+			try {
+				return await runTransition(this, target, options, controller.signal);
+			} finally {
+				options.signal?.removeEventListener("abort", onAbort);
+				if (this.transitionController == controller)
+					this.transitionController = undefined;
+			}
+		});
+	}
+
+	/**
+	 * Cancels the running transition, leaving the bulb at the last sent frame.
+	 */
+	cancelTransition() {
+		this.transitionController?.abort();
+		this.transitionController = undefined;
 	}
 
 	// ######################################
 	//   Lower-level interaction functions
 	// ######################################
-	private isReadyToSend(
-		waitForResponse: boolean,
-	): WikariError<WikariErrorCode.InvalidBulbState> | undefined {
+	private isReadyToSend():
+		| WikariError<WikariErrorCode.InvalidBulbState>
+		| undefined {
+		const state = this.released ? WikariState.CLOSED : this.client.state;
 		const getError = (msg: string) => {
 			return new WikariError(
 				WikariErrorCode.InvalidBulbState,
 				{
-					state: Bulb.state,
+					state,
 					expectedState: [WikariState.READY],
 				},
 				msg,
 			);
 		};
 
-		if (Bulb.state != WikariState.READY) {
-			if (Bulb.state == WikariState.BINDING)
-				return getError("Still waiting for port binding to finish");
+		if (this.released) return getError("This bulb instance has been closed");
 
-			if (Bulb.state == WikariState.CLOSED)
-				return getError("This bulb instance has been closed");
+		if (state != WikariState.READY) {
+			if (state == WikariState.IDLE)
+				return getError("The client of this bulb has not been opened");
 
-			if (Bulb.state == WikariState.AWAITING_RESPONSE && waitForResponse)
-				return getError("Already waiting on a response");
+			if (state == WikariState.BINDING)
+				return getError("Still waiting for port binding to finish");
+
+			if (state == WikariState.CLOSED)
+				return getError("The client of this bulb has been closed");
 		}
 	}
 
-	private sendWithWait(message: Message): Promise<GenericResponse> {
-		Bulb.setInstanceState(WikariState.AWAITING_RESPONSE);
-
-		return new Promise((resolve, reject) => {
-			let timer: ReturnType<typeof setTimeout>;
-
-			const messageListener = (msg: Buffer, rinfo: dgram.RemoteInfo) => {
-				// if the message is not from the bulb IP, ignore it
-				if (rinfo.address != this.address) return;
-
-				try {
-					const response = JSON.parse(msg.toString());
-
-					if ("method" in response) {
-						// not the response to the request we sent
-						if (response["method"] != message["method"]) return;
-					}
-
-					if (timer) clearTimeout(timer);
-					Bulb.client.off("message", messageListener);
-
-					if ("error" in response) {
-						reject(
-							new WikariError(
-								WikariErrorCode.BulbReturnedFailure,
-								{ response },
-								"Bulb returned failure",
-							),
-						);
-					} else resolve(response);
-
-					Bulb.setInstanceState(WikariState.READY);
-				} catch (error) {
-					reject(
-						new WikariError(
-							WikariErrorCode.ResponseParseFailed,
-							{ response: msg.toString(), error: error as Error },
-							"Failed to parse response JSON",
-						),
-					);
-				}
-			};
-			Bulb.client.on("message", messageListener);
-
-			Bulb.client.send(
-				JSON.stringify(message),
-				this.bulbPort,
-				this.address,
-				error => {
-					if (error) {
-						if (timer) clearTimeout(timer);
-						Bulb.setInstanceState(WikariState.READY);
-						reject(
-							new WikariError(
-								WikariErrorCode.RequestSendError,
-								{ error },
-								"Failed to send request to bulb",
-							),
-						);
-					}
-				},
+	/**
+	 * @returns an error for the first problem with the arguments,
+	 * or undefined if they match the template
+	 */
+	private invalidArgument(template: TypeTemplate, args: unknown) {
+		const [diagnostic] = validate(template, args);
+		if (!diagnostic) return;
+
+		const { path, min, max, received, message } = diagnostic;
+		if (min == undefined && max == undefined)
+			return new WikariError(
+				WikariErrorCode.InvalidArgument,
+				{ argument: path, provided: received },
+				`Invalid argument ${message}`,
 			);
 
-			// if the request takes longer than the timeout wait,
-			// we can assume the packet has been lost
-			const getResponseTimeout = () =>
-				this.responseTimeout ?? DEFAULT_RESPONSE_WAIT_MS;
-
-			timer = setTimeout(() => {
-				Bulb.client.off("message", messageListener);
-				reject(
-					new WikariError(
-						WikariErrorCode.RequestTimedOut,
-						{
-							responseWaitMs: getResponseTimeout(),
-						},
-						"Timed out",
-					),
+		return new WikariError(
+			WikariErrorCode.ArgumentOutOfRange,
+			{
+				argument: path,
+				lowerLimit: min ?? -Infinity,
+				higherLimit: max ?? Infinity,
+				provided: received as number,
+			},
+			`'${path}' must be in the range ${min ?? -Infinity} <> ${
+				max ?? Infinity
+			}`,
+		);
+	}
+
+	/**
+	 * @returns the response, if it matches the template
+	 * @throws a {@link WikariError} with
+	 * {@link WikariErrorCode.ResponseValidationFailed} otherwise
+	 */
+	private validateResponse<T extends TypeTemplate>(
+		template: T,
+		response: GenericResponse,
+	) {
+		const diagnostics = validate(template, response);
+		if (diagnostics.length)
+			throw new WikariError(
+				WikariErrorCode.ResponseValidationFailed,
+				{ response, diagnostics },
+				`Response validation failed: ${diagnostics
+					.map(d => d.message)
+					.join(", ")}`,
+			);
+
+		return response as unknown as FromTypeTemplate<T>;
+	}
+
+	/**
+	 * Runs an operation, reporting it's errors the way the client does.
+	 * Operations throw, and call the other throwing operations rather than
+	 * the public methods, so that they work the same in every error mode.
+	 */
+	private outcome<T>(operation: () => Promise<T>): Promise<Outcome<M, T>> {
+		return toOutcome(this.client.errors, operation());
+	}
+
+	private unsupported(operation: string) {
+		const { type, moduleName } = this.capabilities ?? {
+			type: BulbType.Unknown,
+		};
+
+		return new WikariError(
+			WikariErrorCode.UnsupportedOperation,
+			{ operation, bulbType: type, moduleName },
+			`This bulb${
+				moduleName ? ` (${moduleName})` : ""
+			} does not support ${operation}`,
+		);
+	}
+
+	private async sendWithWait(
+		message: Message,
+		options: RequestOptions,
+	): Promise<GenericResponse> {
+		// every attempt reuses the same id, so a late response
+		// to an earlier attempt still resolves the request
+		const tagged = {
+			...message,
+			id: message.id ?? this.client.nextId(),
+		};
+
+		try {
+			return await this.sendWithRetries(tagged, options);
+		} catch (error) {
+			if (
+				!this.resolveAddress ||
+				!(error instanceof WikariError) ||
+				error.code != WikariErrorCode.RequestTimedOut
+			)
+				throw error;
+
+			// the bulb may have been given a new address
+			const previousAddress = this.address;
+			const address = await this.resolveAddress(this);
+			if (!address || address == previousAddress) throw error;
+
+			this.address = address;
+			return await this.sendWithRetries(tagged, options);
+		}
+	}
+
+	private async sendWithRetries(
+		message: Message,
+		options: RequestOptions,
+	): Promise<GenericResponse> {
+		const policy = { ...this.retryPolicy, ...options.retry };
+		const responseTimeout =
+			options.responseTimeout ??
+			this.responseTimeout ??
+			DEFAULT_RESPONSE_WAIT_MS;
+
+		const attempts: RequestAttempt[] = [];
+
+		for (let attempt = 1; ; attempt++) {
+			const startedAt = Date.now();
+			try {
+				return await this.client.request(
+					message,
+					this.address,
+					this.bulbPort,
+					responseTimeout,
 				);
-			}, getResponseTimeout());
-		});
+			} catch (e) {
+				const error = e as WikariError;
+				const retryable =
+					error.code == WikariErrorCode.RequestTimedOut ||
+					error.code == WikariErrorCode.RequestSendError;
+
+				const record: RequestAttempt = {
+					attempt,
+					error,
+					durationMs: Date.now() - startedAt,
+				};
+				attempts.push(record);
+
+				if (!retryable || attempt >= policy.attempts) {
+					if (retryable && policy.attempts > 1)
+						error.data = { ...error.data, attempts };
+					throw error;
+				}
+
+				record.backoffMs = getBackoffDelay(policy, attempt - 1);
+				await sleep(record.backoffMs);
+
+				const stateError = this.isReadyToSend();
+				if (stateError) throw stateError;
+			}
+		}
 	}
 
-	private sendWithoutWaiting(message: Message): Promise<GenericResponse> {
+	private async sendWithoutWaiting(message: Message): Promise<GenericResponse> {
 		// if we're not waiting for a response, we can just wait to see
-		// if there's no errors in the error callback
-		return new Promise((resolve, reject) => {
-			Bulb.client.send(
-				JSON.stringify(message),
-				this.bulbPort,
-				this.address,
-				error => {
-					if (error)
-						reject(
-							new WikariError(
-								WikariErrorCode.RequestSendError,
-								{ error },
-								"Failed to send request to bulb",
-							),
-						);
-					else resolve(message as GenericResponse);
-				},
-			);
-		});
+		// if there's no errors while sending
+		await this.client.send(message, this.address, this.bulbPort);
+		return message as GenericResponse;
 	}
 
 	/**
@@ -500,20 +923,34 @@ export class Bulb {
 	 * functions (like {@link Bulb.toggle} or {@link Bulb.color})
 	 * internally use this function.
 	 *
+	 * Requests that wait for a response are tagged with an `id`
+	 * if they do not already have one.
+	 *
 	 * @param message the message to send to the bulb
 	 * @param waitForResponse whether to wait for a response
+	 * @param options overrides {@link Bulb.responseTimeout} and
+	 * {@link Bulb.retryPolicy} for this request
 	 * @returns if waitForResponse is true, the response from the
 	 * bulb, otherwise the message to be sent itself
 	 */
-	async sendRaw(
+	sendRaw(
+		message: Message,
+		waitForResponse = true,
+		options: RequestOptions = {},
+	) {
+		return this.outcome(() => this.send(message, waitForResponse, options));
+	}
+
+	private async send(
 		message: Message,
 		waitForResponse = true,
+		options: RequestOptions = {},
 	): Promise<GenericResponse> {
-		const error = this.isReadyToSend(waitForResponse);
+		const error = this.isReadyToSend();
 		if (error) throw error;
 
 		if (waitForResponse) {
-			return this.sendWithWait(message);
+			return this.sendWithWait(message, options);
 		} else {
 			return this.sendWithoutWaiting(message);
 		}
@@ -521,18 +958,134 @@ export class Bulb {
 
 	/**
 	 * Fetches the current pilot/state from the bulb.
+	 * @param options per-request timeout and retry settings
 	 * @returns the bulb pilot response
 	 */
-	async getPilot(): Promise<GetPilotResponse> {
-		const pilot = await this.sendRaw({ method: "getPilot", params: {} });
+	getPilot(options?: RequestOptions) {
+		return this.outcome(() => this.fetchPilot(options));
+	}
 
-		if (checkType(getPilotResponseTemplate, pilot)) return pilot;
-		else
-			throw new WikariError(
-				WikariErrorCode.ResponseValidationFailed,
-				{ response: pilot },
-				"Response validation failed",
-			);
+	private async fetchPilot(
+		options?: RequestOptions,
+	): Promise<GetPilotResponse> {
+		const pilot = await this.send(
+			{ method: "getPilot", params: {} },
+			true,
+			options,
+		);
+
+		const response = this.validateResponse(getPilotResponseTemplate, pilot);
+		this.updatePilot(pickPilot(response.result), "getPilot");
+		return response;
+	}
+
+	/**
+	 * Fetches the system configuration of the bulb, which contains it's MAC
+	 * address, module name, firmware version and home/room IDs.
+	 * @param options per-request timeout and retry settings
+	 * @returns the system config response
+	 */
+	getSystemConfig(options?: RequestOptions) {
+		return this.outcome(() => this.fetchSystemConfig(options));
+	}
+
+	private async fetchSystemConfig(
+		options?: RequestOptions,
+	): Promise<GetSystemConfigResponse> {
+		const response = await this.send(
+			{ method: "getSystemConfig", params: {} },
+			true,
+			options,
+		);
+
+		return this.validateResponse(getSystemConfigResponseTemplate, response);
+	}
+
+	/**
+	 * Fetches the model configuration of the bulb, which describes it's
+	 * hardware, such as the supported temperature range.
+	 *
+	 * Bulbs running firmware older than 1.22 do not support this, and
+	 * respond with a {@link WikariErrorCode.BulbReturnedFailure}.
+	 *
+	 * @param options per-request timeout and retry settings
+	 * @returns the model config response
+	 */
+	getModelConfig(options?: RequestOptions) {
+		return this.outcome(() => this.fetchModelConfig(options));
+	}
+
+	private async fetchModelConfig(
+		options?: RequestOptions,
+	): Promise<GetModelConfigResponse> {
+		const response = await this.send(
+			{ method: "getModelConfig", params: {} },
+			true,
+			options,
+		);
+
+		return this.validateResponse(getModelConfigResponseTemplate, response);
+	}
+
+	/**
+	 * Collects the hardware and firmware information of the bulb from
+	 * {@link Bulb.getSystemConfig} and {@link Bulb.getModelConfig}.
+	 *
+	 * ```ts
+	 * const info = await bulb.getDeviceInfo();
+	 * console.log(info.mac, info.moduleName, info.fwVersion);
+	 * ```
+	 *
+	 * @param options per-request timeout and retry settings
+	 * @returns the device information
+	 */
+	getDeviceInfo(options?: RequestOptions) {
+		return this.outcome(() => this.fetchDeviceInfo(options));
+	}
+
+	private async fetchDeviceInfo(options?: RequestOptions): Promise<DeviceInfo> {
+		const [{ result }, modelConfig] = await Promise.all([
+			this.fetchSystemConfig(options),
+			this.fetchModelConfig(options).catch(error => {
+				// older firmware does not know about getModelConfig
+				if (
+					error instanceof WikariError &&
+					error.code == WikariErrorCode.BulbReturnedFailure
+				)
+					return undefined;
+				throw error;
+			}),
+		]);
+
+		return {
+			mac: result.mac,
+			moduleName: result.moduleName,
+			fwVersion: result.fwVersion,
+			homeId: result.homeId,
+			roomId: result.roomId,
+			groupId: result.groupId,
+			typeId: result.typeId,
+			region: result.rgn,
+			modelConfig: modelConfig?.result,
+		};
+	}
+
+	/**
+	 * Detects what the bulb is able to do from it's module name and model
+	 * config, and stores the result in {@link Bulb.capabilities}.
+	 *
+	 * ```ts
+	 * const { color, kelvinRange } = await bulb.detectCapabilities();
+	 * ```
+	 *
+	 * @param options per-request timeout and retry settings
+	 * @returns the detected capabilities
+	 */
+	detectCapabilities(options?: RequestOptions) {
+		return this.outcome(async (): Promise<BulbCapabilities> => {
+			this.capabilities = getCapabilities(await this.fetchDeviceInfo(options));
+			return this.capabilities;
+		});
 	}
 
 	/**
@@ -542,56 +1095,160 @@ export class Bulb {
 	 * control. You should usually find the higher-level
 	 * functions (such as {@link Bulb.color}) enough.
 	 *
+	 * @param pilot the new pilot
+	 * @param options per-request timeout and retry settings
 	 * @returns the bulb pilot response
 	 */
-	async setPilot(pilot: Pilot): Promise<GenericResponse> {
-		const response = await this.sendRaw({ method: "setPilot", params: pilot });
+	setPilot(pilot: Pilot, options?: RequestOptions) {
+		return this.outcome(() => this.applyPilot(pilot, options));
+	}
 
-		if (checkType(setPilotResponseTemplate, response)) return response;
-		else
-			throw new WikariError(
-				WikariErrorCode.ResponseValidationFailed,
-				{ response },
-				"Response validation failed",
-			);
+	private async applyPilot(
+		pilot: Pilot,
+		options?: RequestOptions,
+	): Promise<GenericResponse> {
+		const invalid = this.invalidArgument(pilotTemplate, pilot);
+		if (invalid) throw invalid;
+
+		const response = await this.send(
+			{ method: "setPilot", params: pilot },
+			true,
+			options,
+		);
+
+		this.validateResponse(setPilotResponseTemplate, response);
+		// without a known pilot to start from, the result is not known either
+		if (this._pilot)
+			this.updatePilot(mergePilot(this._pilot, pilot), "setPilot");
+		return response;
+	}
+
+	// ###############################
+	//   Last known pilot functions
+	// ###############################
+	private updatePilot(pilot: Pilot, src: string) {
+		const previous = this._pilot;
+		const changes = diffPilot(previous, pilot);
+		if (!changes.length) return;
+
+		this._pilot = pilot;
+		const change: PilotChange = { src, previous, pilot: { ...pilot }, changes };
+		this.events.emit("state-change", change);
+	}
+
+	// ###############################
+	//   Subscription functions
+	// ###############################
+	private register(register: boolean, phoneIp: string) {
+		return this.send({
+			method: "registration",
+			id: this.client.nextId(),
+			version: 1,
+			params: {
+				register,
+				phoneIp,
+				phoneMac: this.macIdentifier,
+			},
+		} as RegistrationMsg);
+	}
+
+	private handleSubscriptionSync(msg: SyncPilotResponse) {
+		this._lastSyncAt = Date.now();
+		this.markAlive();
+		this.updatePilot(pickPilot(msg.params), msg.params.src ?? "");
+
+		// if we get a syncPilot message, we send back an
+		// acknowledgement for it, which tells WiZ we are
+		// still interested in it's status updates
+		this.send(
+			{
+				method: "syncPilot",
+				id: msg.id,
+				env: msg.env,
+				result: {
+					mac: this.macIdentifier,
+				},
+			} as SyncPilotAckMsg,
+			false,
+		).catch(error => this.emitError(error));
+	}
+
+	// restarts the countdown to the bulb being considered offline
+	private markAlive() {
+		const subscription = this.subscription;
+		if (!subscription) return;
+
+		clearTimeout(subscription.livenessTimer);
+		subscription.livenessTimer = setTimeout(() => {
+			this._online = false;
+			this.events.emit("offline");
+		}, subscription.offlineAfterMs);
+
+		if (!this._online) {
+			this._online = true;
+			this.events.emit("online");
+		}
+	}
+
+	private stopSubscription() {
+		const subscription = this.subscription;
+		if (!subscription) return;
+
+		clearInterval(subscription.renewTimer);
+		clearTimeout(subscription.livenessTimer);
+		subscription.disposeSync();
+
+		this.subscription = undefined;
+		this._online = undefined;
+	}
+
+	private emitError(error: WikariError) {
+		// emitting "error" without a listener would throw
+		if (this.events.listenerCount("error")) this.events.emit("error", error);
 	}
 
 	// ##################################
 	//   UDP Client related functions
 	// ##################################
-	private async initClient(): Promise<void> {
-		Bulb.setInstanceState(WikariState.BINDING);
-		return new Promise<void>((resolve, reject) => {
-			const listeningCallback = () => {
-				Bulb.setInstanceState(WikariState.READY);
-				resolve();
-			};
-			Bulb.client.on("listening", listeningCallback);
-
-			const errorCallback = (error: Error) => {
-				Bulb.client.off("listening", listeningCallback);
-				reject(
-					new WikariError(
-						WikariErrorCode.SocketBindFailed,
-						{ error },
-						`Failed to bind to port ${this.listenPort}`,
-					),
-				);
-			};
-			Bulb.client.on("error", errorCallback);
 
-			Bulb.client.bind(this.listenPort, undefined, () => {
-				Bulb.client.off("listening", listeningCallback);
-				Bulb.client.off("error", errorCallback);
-			});
-		});
+	// the client only delivers messages to bulbs that have listeners for them
+	private updateRouting() {
+		const needsMessages =
+			this.events.listenerCount("message") > 0 ||
+			this.events.listenerCount("sync") > 0;
+
+		if (needsMessages && !this.released) this.client.addRoute(this.route);
+		else this.client.removeRoute(this.route);
+	}
+
+	private deliver(msg: Message | WikariError) {
+		if (msg instanceof WikariError) return this.emitError(msg);
+
+		this.events.emit("message", msg);
+		if (checkType(syncPilotResponseTemplate, msg))
+			this.events.emit("sync", msg);
+
+		// once listeners may have removed themselves
+		this.updateRouting();
 	}
 
+	/**
+	 * Releases this bulb's use of it's {@link WikariClient}, stopping
+	 * it's transition and subscription. The bulb cannot send anything
+	 * afterwards.
+	 *
+	 * The socket of the client is closed once every bulb using it has
+	 * called this, see {@link WikariClient.unref}. To close it right
+	 * away, use {@link WikariClient.close}.
+	 */
 	closeConnection() {
-		if (Bulb.state == WikariState.CLOSED) return;
-		Bulb.setInstanceState(WikariState.CLOSED);
-		Bulb.stateEmitter.removeAllListeners();
-		Bulb.client.removeAllListeners();
-		Bulb.client.close();
+		if (this.released) return;
+		this.released = true;
+
+		this.cancelTransition();
+		this.stopSubscription();
+		this.client.removeRoute(this.route);
+		this.events.emit("release");
+		this.client.unref();
 	}
 }
@@ -0,0 +1,136 @@
+import { SCENES } from "./constants";
+import { DeviceInfo } from "./types";
+
+/**
+ * The kind of WiZ device, as determined from it's module name.
+ */
+export const enum BulbType {
+	// full color, with tunable white
+	RGB,
+	// tunable white, no color
+	TunableWhite,
+	// dimmable, single white temperature
+	DimmableWhite,
+	// smart plug, can only be turned on or off
+	Socket,
+	// the module name is not one we know about
+	Unknown,
+}
+
+/**
+ * Describes what a bulb is able to do, see {@link getCapabilities}.
+ */
+export type BulbCapabilities = {
+	type: BulbType;
+	moduleName?: string;
+	// whether the r, g and b channels can be set
+	color: boolean;
+	// whether the white temperature can be changed
+	colorTemperature: boolean;
+	// whether the brightness can be changed
+	dimming: boolean;
+	// supported white temperature range in kelvin, both inclusive
+	kelvinRange?: { min: number; max: number };
+	// IDs of the scenes the bulb supports
+	scenes: number[];
+};
+
+const ALL_SCENES = Object.values(SCENES) as number[];
+
+// scenes that make sense without RGB channels, as used by the WiZ app
+const TUNABLE_WHITE_SCENES = [
+	6, 9, 10, 11, 12, 13, 14, 15, 16, 18, 29, 30, 31, 32,
+];
+const DIMMABLE_WHITE_SCENES = [9, 10, 13, 14, 29, 30, 31, 32];
+
+const DEFAULT_KELVIN_RANGE = {
+	[BulbType.RGB]: { min: 2200, max: 6500 },
+	[BulbType.TunableWhite]: { min: 2700, max: 6500 },
+	[BulbType.Unknown]: { min: 1000, max: 10_000 },
+};
+
+/**
+ * Determines the type of a WiZ device from it's module name,
+ * e.g. ESP01_SHRGB_03 is an RGB bulb, ESP56_SHTW3_01 is a tunable
+ * white bulb.
+ */
+export const getBulbType = (moduleName: string) => {
+	const name = moduleName.toUpperCase();
+
+	if (name.includes("SOCKET")) return BulbType.Socket;
+	if (name.includes("RGB")) return BulbType.RGB;
+	if (name.includes("TW")) return BulbType.TunableWhite;
+	if (name.includes("DW")) return BulbType.DimmableWhite;
+
+	return BulbType.Unknown;
+};
+
+/**
+ * Works out the capabilities of a bulb from it's device information.
+ *
+ * The type is derived from the module name, and the supported kelvin
+ * range is taken from `cctRange` in the model config when the firmware
+ * provides it, falling back to the usual range for the type otherwise.
+ *
+ * Unknown devices are assumed to be able to do everything, so that
+ * nothing is rejected for devices we do not recognise.
+ *
+ * @param info device information, as returned by {@link Bulb.getDeviceInfo}
+ * @returns the capabilities of the bulb
+ */
+export function getCapabilities(
+	info: Pick<DeviceInfo, "moduleName" | "modelConfig">,
+): BulbCapabilities {
+	const type = getBulbType(info.moduleName);
+	const cctRange = info.modelConfig?.cctRange;
+
+	const kelvinRange = (range: { min: number; max: number }) =>
+		cctRange?.length
+			? { min: Math.min(...cctRange), max: Math.max(...cctRange) }
+			: range;
+
+	switch (type) {
+		case BulbType.RGB:
+		case BulbType.Unknown:
+			return {
+				type,
+				moduleName: info.moduleName,
+				color: true,
+				colorTemperature: true,
+				dimming: true,
+				kelvinRange: kelvinRange(DEFAULT_KELVIN_RANGE[type]),
+				scenes: ALL_SCENES,
+			};
+
+		case BulbType.TunableWhite:
+			return {
+				type,
+				moduleName: info.moduleName,
+				color: false,
+				colorTemperature: true,
+				dimming: true,
+				kelvinRange: kelvinRange(DEFAULT_KELVIN_RANGE[type]),
+				scenes: TUNABLE_WHITE_SCENES,
+			};
+
+		case BulbType.DimmableWhite:
+			return {
+				type,
+				moduleName: info.moduleName,
+				color: false,
+				colorTemperature: false,
+				dimming: true,
+				scenes: DIMMABLE_WHITE_SCENES,
+			};
+
+		case BulbType.Socket:
+			return {
+				type,
+				moduleName: info.moduleName,
+				color: false,
+				colorTemperature: false,
+				dimming: false,
+				scenes: [],
+			};
+	}
+}
@@ -0,0 +1,413 @@
+import EventEmitter from "events";
+import { Bulb } from "./bulb";
+import {
+	DEFAULT_CIRCADIAN_CURVE,
+	DEFAULT_CIRCADIAN_INTERVAL_MS,
+} from "./constants";
+import { CronSchedule, nextCronOccurrence, parseCron } from "./cron";
+import { ErrorMode, unwrapOutcome } from "./result";
+import { ScheduleTrigger } from "./scheduler";
+import { getSolarTimes, nextSolarOccurrence } from "./solar";
+import { SyncPilotResponse } from "./types";
+import { WikariError, WikariErrorCode } from "./wikari-error";
+
+/**
+ * The range the white temperature and brightness move in over the day.
+ * The minimums apply at night, the maximums at solar noon.
+ */
+export type CircadianCurve = {
+	kelvin: { min: number; max: number };
+	// 10 to 100, since lower values turn most bulbs off
+	brightness: { min: number; max: number };
+};
+
+export type CircadianTarget = {
+	kelvin: number;
+	brightness: number;
+};
+
+export type CircadianEvents<M extends ErrorMode = "throw"> = {
+	// the target was applied to a bulb
+	apply: (bulb: Bulb<M>, target: CircadianTarget) => void;
+	// a bulb was changed by someone else, and is left alone until the reset point
+	override: (bulb: Bulb<M>, msg: SyncPilotResponse, until?: Date) => void;
+	// a bulb is followed again after being overridden
+	resume: (bulb: Bulb<M>) => void;
+	error: (error: unknown, bulb: Bulb<M>) => void;
+};
+
+export declare interface CircadianController<M extends ErrorMode = "throw"> {
+	on<E extends keyof CircadianEvents<M>>(
+		event: E,
+		listener: CircadianEvents<M>[E],
+	): this;
+	once<E extends keyof CircadianEvents<M>>(
+		event: E,
+		listener: CircadianEvents<M>[E],
+	): this;
+	off<E extends keyof CircadianEvents<M>>(
+		event: E,
+		listener: CircadianEvents<M>[E],
+	): this;
+	emit<E extends keyof CircadianEvents<M>>(
+		event: E,
+		...args: Parameters<CircadianEvents<M>[E]>
+	): boolean;
+}
+
+type FollowedBulb = {
+	// what was last set on the bulb, without a temperature on
+	// bulbs that only support dimming
+	applied?: { temp?: number; dimming: number };
+	// whether a setPilot is on its way, during which syncs may
+	// still report the previous state
+	applying: boolean;
+	overridden: boolean;
+	overriddenUntil?: Date;
+	off: boolean;
+};
+
+// how far the values reported by a bulb may be from what was set, since
+// bulbs round them, before they are taken as a change made by someone else
+const KELVIN_TOLERANCE = 50;
+const DIMMING_TOLERANCE = 2;
+// used as the length of the day when the sun does not rise or set
+const POLAR_HALF_DAY_MS = 6 * 3_600_000;
+const MIN_DIMMING = 10;
+
+const checkRange = (
+	argument: string,
+	range: { min: number; max: number },
+	lowerLimit: number,
+	higherLimit: number,
+) => {
+	for (const provided of [range.min, range.max])
+		if (provided < lowerLimit || provided > higherLimit)
+			throw new WikariError(
+				WikariErrorCode.ArgumentOutOfRange,
+				{ argument, lowerLimit, higherLimit, provided },
+				`${argument} must be in the range ${lowerLimit} <> ${higherLimit}`,
+			);
+
+	if (range.min > range.max)
+		throw new WikariError(
+			WikariErrorCode.InvalidArgument,
+			{ argument, provided: range },
+			`The minimum ${argument} must not be more than the maximum`,
+		);
+};
+
+/**
+ * Computes the white temperature and brightness for a point in time.
+ *
+ * Both follow a sine curve between sunrise and sunset, peaking at solar
+ * noon, and stay at their minimum during the night. On days when the sun
+ * does not rise or set, a twelve hour day around solar noon is used.
+ *
+ * @param date the point in time
+ * @param latitude latitude in degrees, north is positive
+ * @param longitude longitude in degrees, east is positive
+ * @param curve the range of the temperature and brightness
+ */
+export function getCircadianTarget(
+	date: Date,
+	latitude: number,
+	longitude: number,
+	curve: CircadianCurve = DEFAULT_CIRCADIAN_CURVE,
+): CircadianTarget {
+	const { sunrise, sunset, solarNoon } = getSolarTimes(
+		date,
+		latitude,
+		longitude,
+	);
+
+	const noon = (solarNoon as Date).getTime();
+	const start = sunrise?.getTime() ?? noon - POLAR_HALF_DAY_MS;
+	const end = sunset?.getTime() ?? noon + POLAR_HALF_DAY_MS;
+
+	const progress = (date.getTime() - start) / (end - start);
+	const factor =
+		progress > 0 && progress < 1 ? Math.sin(Math.PI * progress) : 0;
+
+	const lerp = ({ min, max }: { min: number; max: number }) =>
+		Math.round(min + (max - min) * factor);
+
+	return { kelvin: lerp(curve.kelvin), brightness: lerp(curve.brightness) };
+}
+
+/**
+ * Makes bulbs drift from warm to cool white and back across the day,
+ * following the sun (see {@link getCircadianTarget}).
+ *
+ * Every `intervalMs`, the current target is applied with a single
+ * {@link Bulb.setPilot}. When a `syncPilot` message shows that a bulb was
+ * changed from somewhere else, such as the app, a remote or another
+ * controller, because it reports a scene, a color or a temperature or
+ * brightness other than the one that was set, the controller backs off and
+ * leaves that bulb alone until the next reset point, sunrise by default.
+ * Bulbs that are turned off are not turned back on.
+ *
+ * Manual changes can only be noticed on bulbs that have been subscribed to
+ * with {@link Bulb.subscribe}, others are always followed.
+ *
+ * @example
+ * ```ts
+ * const circadian = new CircadianController(bulbs, {
+ *   latitude: 52.52,
+ *   longitude: 13.405,
+ *   curve: {
+ *     kelvin: { min: 2200, max: 5000 },
+ *     brightness: { min: 40, max: 100 },
+ *   },
+ * });
+ *
+ * circadian.on("override", bulb => console.log(bulb.address, "overridden"));
+ * circadian.start();
+ * ```
+ */
+export class CircadianController<
+	M extends ErrorMode = "throw",
+> extends EventEmitter {
+	readonly bulbs: Bulb<M>[];
+	readonly latitude: number;
+	readonly longitude: number;
+	readonly curve: CircadianCurve;
+	readonly resetAt: ScheduleTrigger;
+	intervalMs: number;
+
+	private readonly followed = new Map<Bulb<M>, FollowedBulb>();
+	private readonly resetCron: CronSchedule | undefined;
+	private timer: ReturnType<typeof setInterval> | undefined;
+	private disposers: (() => void)[] = [];
+	private updating: Promise<void> | undefined;
+
+	/**
+	 * @param bulbs the bulbs to control
+	 * @param options
+	 * * latitude, longitude: the location used for the position of the sun
+	 * * curve: the range of the temperature and brightness
+	 * * intervalMs: how often to apply the target
+	 * * resetAt: when overridden bulbs are followed again, as a cron
+	 *   expression or a solar event
+	 */
+	constructor(
+		bulbs: Bulb<M> | Iterable<Bulb<M>>,
+		options: {
+			latitude: number;
+			longitude: number;
+			curve?: Partial<CircadianCurve>;
+			intervalMs?: number;
+			resetAt?: ScheduleTrigger;
+		},
+	) {
+		super();
+		this.bulbs = bulbs instanceof Bulb ? [bulbs] : [...bulbs];
+		this.latitude = options.latitude;
+		this.longitude = options.longitude;
+		this.curve = { ...DEFAULT_CIRCADIAN_CURVE, ...options.curve };
+		this.intervalMs = options.intervalMs ?? DEFAULT_CIRCADIAN_INTERVAL_MS;
+		this.resetAt = options.resetAt ?? { solar: "sunrise" };
+
+		checkRange("kelvin", this.curve.kelvin, 1000, 10_000);
+		checkRange("brightness", this.curve.brightness, MIN_DIMMING, 100);
+
+		if ("cron" in this.resetAt) this.resetCron = parseCron(this.resetAt.cron);
+
+		for (const bulb of this.bulbs)
+			this.followed.set(bulb, {
+				applying: false,
+				overridden: false,
+				off: false,
+			});
+	}
+
+	get running() {
+		return this.timer != undefined;
+	}
+
+	/**
+	 * Applies the current target and keeps doing so every `intervalMs`.
+	 */
+	start() {
+		if (this.timer) return;
+
+		this.disposers = this.bulbs.map(bulb =>
+			bulb.onSync(msg => this.handleSync(bulb, msg)),
+		);
+		this.timer = setInterval(() => this.update(), this.intervalMs);
+		this.update();
+	}
+
+	/**
+	 * Stops applying the target, leaving the bulbs as they are.
+	 */
+	stop() {
+		clearInterval(this.timer);
+		this.timer = undefined;
+
+		for (const dispose of this.disposers) dispose();
+		this.disposers = [];
+	}
+
+	/**
+	 * @returns whether the bulb is currently left alone because it was
+	 * changed by someone else
+	 */
+	isOverridden(bulb: Bulb<M>) {
+		return this.followed.get(bulb)?.overridden ?? false;
+	}
+
+	/**
+	 * Follows overridden bulbs again right away, instead of waiting
+	 * for the reset point.
+	 * @param bulb the bulb to follow again, every bulb if not provided
+	 */
+	reset(bulb?: Bulb<M>) {
+		for (const [b, state] of this.followed) {
+			if (bulb && b != bulb) continue;
+			if (state.overridden) this.resume(b, state);
+		}
+	}
+
+	/**
+	 * Applies the current target to every bulb that is not overridden.
+	 * @returns a promise that resolves once every bulb has been updated
+	 */
+	update(): Promise<void> {
+		// an update that is still running already applies the latest target
+		this.updating ??= this.applyAll().finally(
+			() => (this.updating = undefined),
+		);
+
+		return this.updating;
+	}
+
+	private async applyAll() {
+		const target = getCircadianTarget(
+			new Date(),
+			this.latitude,
+			this.longitude,
+			this.curve,
+		);
+
+		await Promise.all(
+			[...this.followed].map(([bulb, state]) =>
+				this.apply(bulb, state, target),
+			),
+		);
+	}
+
+	private async apply(
+		bulb: Bulb<M>,
+		state: FollowedBulb,
+		target: CircadianTarget,
+	) {
+		if (
+			state.overridden &&
+			state.overriddenUntil &&
+			Date.now() >= state.overriddenUntil.getTime()
+		)
+			this.resume(bulb, state);
+
+		if (state.overridden || state.off) return;
+
+		const { kelvin, brightness } = target;
+		const range = bulb.capabilities?.kelvinRange;
+		const temp =
+			bulb.capabilities?.colorTemperature === false
+				? undefined
+				: range
+				? Math.min(Math.max(kelvin, range.min), range.max)
+				: kelvin;
+
+		// compared with what is sent, so that a clamped
+		// temperature is not sent again every time
+		const { applied } = state;
+		if (applied && applied.temp == temp && applied.dimming == brightness)
+			return;
+
+		// sent together, since two requests make the bulb flicker
+		const pilot = { ...(temp != undefined && { temp }), dimming: brightness };
+
+		state.applying = true;
+		try {
+			unwrapOutcome(bulb.client.errors, await bulb.setPilot(pilot));
+			state.applied = pilot;
+			this.emit("apply", bulb, target);
+		} catch (error) {
+			// try again on the next update
+			state.applied = undefined;
+			if (this.listenerCount("error")) this.emit("error", error, bulb);
+		} finally {
+			state.applying = false;
+		}
+	}
+
+	private handleSync(bulb: Bulb<M>, msg: SyncPilotResponse) {
+		const state = this.followed.get(bulb);
+		if (!state) return;
+
+		const { params } = msg;
+		state.off = params.state === false;
+
+		if (state.off || state.overridden || state.applying || !state.applied)
+			return;
+
+		// the source is not looked at, since other controllers
+		// send their changes over UDP just like this one
+		if (!this.changedElsewhere(state.applied, params)) return;
+
+		state.overridden = true;
+		state.overriddenUntil = this.nextReset();
+		this.emit("override", bulb, msg, state.overriddenUntil);
+	}
+
+	private changedElsewhere(
+		applied: { temp?: number; dimming: number },
+		params: SyncPilotResponse["params"],
+	) {
+		const differs = (
+			reported: number | undefined,
+			expected: number,
+			tolerance: number,
+		) => reported != undefined && Math.abs(reported - expected) > tolerance;
+
+		if (params.sceneId) return true;
+		if (differs(params.dimming, applied.dimming, DIMMING_TOLERANCE))
+			return true;
+
+		// bulbs that only support dimming may show any color
+		if (applied.temp == undefined) return false;
+		return (
+			params.temp == undefined ||
+			differs(params.temp, applied.temp, KELVIN_TOLERANCE)
+		);
+	}
+
+	private resume(bulb: Bulb<M>, state: FollowedBulb) {
+		state.overridden = false;
+		state.overriddenUntil = undefined;
+		// whatever was set manually has to be replaced
+		state.applied = undefined;
+		this.emit("resume", bulb);
+	}
+
+	private nextReset() {
+		const now = new Date();
+
+		if ("cron" in this.resetAt)
+			return nextCronOccurrence(
+				this.resetCron as CronSchedule,
+				now,
+				this.resetAt.timeZone,
+			);
+
+		return nextSolarOccurrence(
+			this.resetAt.solar,
+			now,
+			this.latitude,
+			this.longitude,
+			this.resetAt.offsetMs,
+		);
+	}
+}
@@ -0,0 +1,363 @@
+#!/usr/bin/env node
+import { isIPv4 } from "net";
+import { parseArgs } from "util";
+import { Bulb } from "./bulb";
+import { BulbRegistry } from "./bulb-registry";
+import { WikariClient } from "./client";
+import { SCENES, UDP_BROADCAST_LISTEN_PORT } from "./constants";
+import { probe } from "./discover";
+import { decodePilot, DecodedPilot } from "./pilot";
+import { Message, SyncPilotResponse } from "./types";
+import { normalizeMac } from "./utils";
+import { WikariError, WikariErrorCode } from "./wikari-error";
+
+const USAGE = `Usage: wikari <command> [options]
+
+Commands:
+  discover              list the bulbs on the network
+  status                show the state of a bulb
+  on, off, toggle       turn a bulb on or off
+  color <color>         set the color, e.g. "#f44336", tomato or "rgb(244 67 54)"
+  white <kelvin>        set a white temperature
+  brightness <percent>  set the brightness, from 0 to 100
+  scene <name | id>     set a scene, e.g. "TV Time" or 18
+  watch                 print the state updates of a bulb until interrupted
+  raw <json>            send a message to a bulb and print the response
+
+Options:
+  -b, --bulb <bulb>       the IP address, MAC address or registry name of the bulb
+  -r, --registry <file>   the registry used to look up bulbs by name
+  -i, --interface <name>  the network interface the bulbs are on
+      --addr <address>    the address to send discovery requests to
+      --wait <ms>         how long to wait for bulbs to respond to discovery
+      --timeout <ms>      how long to wait for a response from the bulb
+      --listen-port <n>   the port to listen on, 38900 for watch and any otherwise
+      --speed <n>         the speed of the scene, from 1 to 100
+      --perceptual        mix the white part of a color with the white LEDs
+      --no-wait           do not wait for a response to a raw message
+  -j, --json              print JSON instead of text
+  -h, --help              show this help
+
+The bulb and registry can also be set with WIKARI_BULB and WIKARI_REGISTRY.`;
+
+// WikariErrors exit with this plus their WikariErrorCode
+const ERROR_EXIT_CODE_OFFSET = 10;
+const USAGE_EXIT_CODE = 2;
+
+const BULB_COMMANDS = [
+	"status",
+	"on",
+	"off",
+	"toggle",
+	"color",
+	"white",
+	"brightness",
+	"scene",
+	"watch",
+	"raw",
+];
+
+const MAC_REGEX = /^[\da-f]{2}([:-]?[\da-f]{2}){5}$/i;
+
+type CliOptions = {
+	"bulb"?: string;
+	"registry"?: string;
+	"interface"?: string;
+	"addr"?: string;
+	"wait"?: string;
+	"timeout"?: string;
+	"listen-port"?: string;
+	"speed"?: string;
+	"perceptual"?: boolean;
+	"no-wait"?: boolean;
+	"json"?: boolean;
+	"help"?: boolean;
+};
+
+class UsageError extends Error {}
+
+const parseNumber = (argument: string, value: string | undefined) => {
+	const number = Number(value);
+	if (value == undefined || value.trim() == "" || Number.isNaN(number))
+		throw new WikariError(
+			WikariErrorCode.InvalidArgument,
+			{ argument, provided: value },
+			`'${argument}' must be a number, got '${value ?? ""}'`,
+		);
+
+	return number;
+};
+
+const optionalNumber = (argument: string, value: string | undefined) =>
+	value == undefined ? undefined : parseNumber(argument, value);
+
+// scene names are matched without case, spaces or dashes
+const simplify = (name: string) => name.toLowerCase().replace(/[\s-]/g, "");
+
+const findScene = (scene: string) => {
+	if (/^\d+$/.test(scene)) return Number(scene);
+
+	const entry = Object.entries(SCENES).find(
+		([name]) => simplify(name) == simplify(scene),
+	);
+	if (!entry)
+		throw new WikariError(
+			WikariErrorCode.InvalidArgument,
+			{ argument: "scene", provided: scene },
+			`'${scene}' is not a scene, the scenes are: ${Object.keys(SCENES).join(
+				", ",
+			)}`,
+		);
+
+	return entry[1];
+};
+
+const describePilot = ({ mode, dimming, scene, color, temp }: DecodedPilot) => {
+	const parts: string[] = [mode == "off" ? "off" : "on"];
+
+	if (scene) parts.push(`scene ${scene.name ?? scene.id}`);
+	if (color) parts.push(`color ${color.hex}`);
+	if (temp) parts.push(`white ${temp}K`);
+	if (dimming != undefined) parts.push(`${dimming}%`);
+
+	return parts.join(", ");
+};
+
+const print = (json: boolean, value: unknown, text: string) =>
+	console.log(json ? JSON.stringify(value) : text);
+
+/**
+ * Finds the bulb the user asked for, by IP address, by the name or MAC
+ * address of a registry entry, or by MAC address through discovery.
+ */
+async function resolveBulb(options: CliOptions, client: WikariClient) {
+	const target = options.bulb ?? process.env.WIKARI_BULB;
+	if (!target) throw new UsageError("No bulb given, pass --bulb");
+
+	const responseTimeout = optionalNumber("timeout", options.timeout);
+	if (isIPv4(target)) return client.bulb(target, { responseTimeout });
+
+	const discover = {
+		client,
+		addr: options.addr,
+		networkInterface: options.interface,
+		waitMs: optionalNumber("wait", options.wait),
+	};
+
+	const path = options.registry ?? process.env.WIKARI_REGISTRY;
+	if (path) {
+		const registry = await BulbRegistry.load(path, { discover });
+		const bulb = registry.bulb(target);
+		if (bulb) {
+			if (responseTimeout) bulb.responseTimeout = responseTimeout;
+			return bulb;
+		}
+	}
+
+	if (MAC_REGEX.test(target)) {
+		const found = (await probe(discover)).get(normalizeMac(target));
+		if (found) return client.bulb(found.address, { responseTimeout });
+	}
+
+	throw new WikariError(
+		WikariErrorCode.InvalidArgument,
+		{ argument: "bulb", provided: target },
+		`No bulb found for '${target}'`,
+	);
+}
+
+async function discoverCommand(options: CliOptions) {
+	const results = await probe({
+		addr: options.addr,
+		networkInterface: options.interface,
+		waitMs: optionalNumber("wait", options.wait),
+	});
+
+	const path = options.registry ?? process.env.WIKARI_REGISTRY;
+	const registry = path ? await BulbRegistry.load(path) : undefined;
+
+	const bulbs = [...results.values()].map(({ mac, address, response }) => ({
+		mac,
+		address,
+		name: registry?.get(mac)?.name,
+		pilot: decodePilot(response),
+	}));
+
+	if (options.json) return print(true, bulbs, "");
+	for (const { mac, address, name, pilot } of bulbs)
+		console.log(
+			[address, mac, name, describePilot(pilot)].filter(Boolean).join("  "),
+		);
+}
+
+// resolves once the user interrupts the watch
+function watchCommand(bulb: Bulb, options: CliOptions) {
+	bulb.onSync((msg: SyncPilotResponse) => {
+		const pilot = decodePilot(msg);
+		print(
+			!!options.json,
+			msg,
+			`${new Date().toLocaleTimeString()}  ${
+				msg.params.src ?? "sync"
+			}  ${describePilot(pilot)}`,
+		);
+	});
+	bulb.on("offline", () => print(!!options.json, { offline: true }, "offline"));
+
+	return new Promise<void>((resolve, reject) => {
+		process.once("SIGINT", () =>
+			bulb.unsubscribe().then(() => resolve(), reject),
+		);
+
+		bulb.subscribe(options.interface).catch(reject);
+	});
+}
+
+async function bulbCommand(
+	command: string,
+	args: string[],
+	options: CliOptions,
+) {
+	const listenPort =
+		optionalNumber("listen-port", options["listen-port"]) ??
+		(command == "watch" ? UDP_BROADCAST_LISTEN_PORT : 0);
+	const client = new WikariClient({
+		listenPort,
+		networkInterface: options.interface,
+	});
+
+	const bulb = await resolveBulb(options, client);
+	const arg = (name: string) => {
+		if (args[0] == undefined)
+			throw new UsageError(`Missing <${name}> for ${command}`);
+		return args[0];
+	};
+
+	try {
+		await client.open();
+
+		switch (command) {
+			case "status": {
+				const pilot = decodePilot(await bulb.getPilot());
+				return print(!!options.json, pilot, describePilot(pilot));
+			}
+			case "watch":
+				return await watchCommand(bulb, options);
+			case "raw": {
+				const json = arg("json");
+				let message: Message;
+				try {
+					message = JSON.parse(json);
+				} catch {
+					throw new WikariError(
+						WikariErrorCode.InvalidArgument,
+						{ argument: "json", provided: json },
+						"The message must be valid JSON",
+					);
+				}
+
+				const response = await bulb.sendRaw(message, !options["no-wait"]);
+				return print(true, response, "");
+			}
+		}
+
+		let response;
+		switch (command) {
+			case "on":
+			case "off":
+				response = await bulb.turn(command == "on");
+				break;
+			case "toggle":
+				response = await bulb.toggle();
+				break;
+			case "color":
+				response = await bulb.color(arg("color"), {
+					perceptual: options.perceptual,
+				});
+				break;
+			case "white":
+				response = await bulb.white(parseNumber("kelvin", arg("kelvin")));
+				break;
+			case "brightness":
+				response = await bulb.brightness(
+					parseNumber("percent", arg("percent")),
+				);
+				break;
+			case "scene": {
+				const speed = optionalNumber("speed", options.speed);
+				response = await bulb.scene(
+					findScene(args.join(" ") || arg("name | id")),
+					speed == undefined ? {} : { speed },
+				);
+				break;
+			}
+		}
+
+		print(!!options.json, response, "ok");
+	} finally {
+		bulb.closeConnection();
+	}
+}
+
+function reportError(error: unknown, json: boolean) {
+	if (error instanceof WikariError) {
+		if (json)
+			console.error(
+				JSON.stringify({ error: { code: error.code, message: error.message } }),
+			);
+		else console.error(`wikari: ${error.message}`);
+
+		process.exitCode = ERROR_EXIT_CODE_OFFSET + error.code;
+	} else if (
+		error instanceof UsageError ||
+		(error as NodeJS.ErrnoException).code?.startsWith("ERR_PARSE_ARGS")
+	) {
+		console.error(
+			`wikari: ${(error as Error).message}\nRun 'wikari --help' for usage`,
+		);
+		process.exitCode = USAGE_EXIT_CODE;
+	} else {
+		console.error(error);
+		process.exitCode = 1;
+	}
+}
+
+async function main(argv: string[]) {
+	// errors are only printed as JSON once the arguments could be parsed
+	let options: CliOptions = {};
+
+	try {
+		const { values, positionals } = parseArgs({
+			args: argv,
+			allowPositionals: true,
+			options: {
+				"bulb": { type: "string", short: "b" },
+				"registry": { type: "string", short: "r" },
+				"interface": { type: "string", short: "i" },
+				"addr": { type: "string" },
+				"wait": { type: "string" },
+				"timeout": { type: "string" },
+				"listen-port": { type: "string" },
+				"speed": { type: "string" },
+				"perceptual": { type: "boolean" },
+				"no-wait": { type: "boolean" },
+				"json": { type: "boolean", short: "j" },
+				"help": { type: "boolean", short: "h" },
+			},
+		});
+
+		options = values;
+		const [command, ...args] = positionals;
+
+		if (options.help || !command) return console.log(USAGE);
+		if (command == "discover") return await discoverCommand(options);
+		if (!BULB_COMMANDS.includes(command))
+			throw new UsageError(`Unknown command '${command}'`);
+
+		return await bulbCommand(command, args, options);
+	} catch (error) {
+		reportError(error, !!options.json);
+	}
+}
+
+main(process.argv.slice(2));
@@ -0,0 +1,379 @@
+import EventEmitter from "events";
+import { Bulb, BulbOptions, WikariState } from "./bulb";
+import { UDP_BROADCAST_LISTEN_PORT } from "./constants";
+import { RequestMultiplexer } from "./request-multiplexer";
+import { ErrorMode, toOutcome } from "./result";
+import { Transport, TransportPeer, UdpTransport } from "./transport";
+import { GenericResponse, Message } from "./types";
+import { ipAddress } from "./utils";
+import { WikariError, WikariErrorCode } from "./wikari-error";
+
+export type WikariClientEvents = {
+	"state-change": (state: WikariState) => void;
+	// the transport failed after it was bound
+	"error": (error: Error) => void;
+};
+
+export declare interface WikariClient<M extends ErrorMode = "throw"> {
+	on<E extends keyof WikariClientEvents>(
+		event: E,
+		listener: WikariClientEvents[E],
+	): this;
+	once<E extends keyof WikariClientEvents>(
+		event: E,
+		listener: WikariClientEvents[E],
+	): this;
+	off<E extends keyof WikariClientEvents>(
+		event: E,
+		listener: WikariClientEvents[E],
+	): this;
+	emit<E extends keyof WikariClientEvents>(
+		event: E,
+		...args: Parameters<WikariClientEvents[E]>
+	): boolean;
+}
+
+/**
+ * Where a {@link WikariClient} delivers the messages sent by a bulb.
+ * Used by {@link Bulb}, you should not need this yourself.
+ */
+export type MessageRoute = {
+	// the address of the bulb, looked up for every message
+	address: () => string;
+	// called with the message, or the error if it could not be parsed
+	deliver: (msg: Message | WikariError) => void;
+	// called when the client is closed
+	closed: () => void;
+};
+
+/**
+ * Owns the UDP socket that bulbs are talked to over, along with it's state.
+ * Another {@link Transport} can be passed to use something else instead.
+ *
+ * Bulbs created through a client (with {@link WikariClient.bulb}, or by
+ * passing the `client` option to {@link Bulb}) use it's socket, and keep it
+ * open: the client is opened when the first bulb is created, and closed when
+ * every bulb has called {@link Bulb.closeConnection}. Bulbs created without
+ * a client use {@link WikariClient.default}.
+ *
+ * Any number of clients can exist at once, as long as they listen on
+ * different ports or addresses.
+ *
+ * @example
+ * ```ts
+ * const client = new WikariClient({ networkInterface: "eth0" });
+ * const bulb = client.bulb("192.168.1.10");
+ * await client.open();
+ *
+ * await bulb.turn(true);
+ *
+ * // closes the socket, no matter how many bulbs use it
+ * client.close();
+ *
+ * // and opens a new one, which the bulbs can use again
+ * await client.open();
+ * ```
+ */
+export class WikariClient<M extends ErrorMode = "throw"> extends EventEmitter {
+	private static _default: WikariClient | undefined;
+
+	/**
+	 * The client used by bulbs that are created without one.
+	 */
+	static get default() {
+		return this.getDefault();
+	}
+
+	static set default(client: WikariClient) {
+		this._default = client;
+	}
+
+	/**
+	 * @param listenPort the port to listen on if the default
+	 * client does not exist yet
+	 * @returns the default client, creating it if needed
+	 */
+	static getDefault(listenPort?: number) {
+		this._default ??= new WikariClient({ listenPort });
+		return this._default;
+	}
+
+	readonly listenPort: number;
+	// the address the socket is bound to, every address if undefined
+	readonly address: string | undefined;
+	readonly networkInterface: string | undefined;
+	readonly transport: Transport;
+	// how the client and it's bulbs report errors
+	readonly errors: M;
+
+	private multiplexer!: RequestMultiplexer;
+	private _state = WikariState.IDLE;
+	private opening: Promise<void> | undefined;
+	private cancelOpening: ((error: WikariError) => void) | undefined;
+	private refCount = 0;
+	private readonly routes = new Set<MessageRoute>();
+
+	/**
+	 * @param options
+	 * * listenPort: the port to listen on, the port that WiZ bulbs
+	 *   send updates to by default
+	 * * networkInterface: only listen on the address of this interface
+	 * * address: only listen on this address
+	 * * transport: what to send and receive messages over, a
+	 *   {@link UdpTransport} if not provided
+	 * * errors: "throw" (the default) to reject with a {@link WikariError}
+	 *   when something fails, or "result" to resolve with a {@link Result}
+	 *   instead, see {@link ErrorMode}
+	 */
+	constructor(
+		options: {
+			listenPort?: number;
+			networkInterface?: string;
+			address?: string;
+			transport?: Transport;
+			errors?: M;
+		} = {},
+	) {
+		super();
+		this.listenPort = options.listenPort ?? UDP_BROADCAST_LISTEN_PORT;
+		this.networkInterface = options.networkInterface;
+		this.address = options.address;
+		this.errors = options.errors ?? ("throw" as M);
+
+		if (!this.address && this.networkInterface) {
+			this.address = ipAddress(this.networkInterface);
+			if (!this.address)
+				throw new WikariError(
+					WikariErrorCode.InvalidArgument,
+					{ argument: "networkInterface", provided: this.networkInterface },
+					`Unable to obtain the local IP address for the network interface '${this.networkInterface}'`,
+				);
+		}
+
+		this.transport = options.transport ?? new UdpTransport();
+		this.transport.on("error", error => {
+			// emitting "error" without a listener would throw
+			if (this.listenerCount("error")) this.emit("error", error);
+		});
+		this.attach();
+	}
+
+	get state() {
+		return this._state;
+	}
+
+	/**
+	 * How many users the client has, see {@link WikariClient.ref}.
+	 */
+	get refs() {
+		return this.refCount;
+	}
+
+	/**
+	 * @returns the number of requests still waiting for a response
+	 */
+	get inFlight() {
+		return this.multiplexer.inFlight;
+	}
+
+	/**
+	 * Creates a bulb that uses this client.
+	 * @param address the IP address of the bulb
+	 * @param options the options of the bulb
+	 */
+	bulb(address: string, options?: Omit<BulbOptions<M>, "client">) {
+		return new Bulb<M>(address, { ...options, client: this });
+	}
+
+	/**
+	 * Binds the transport, opening it again if the client has been closed.
+	 * The state is {@link WikariState.BINDING} while this happens, and
+	 * {@link WikariState.READY} once it's done.
+	 *
+	 * @throws a {@link WikariError} with {@link WikariErrorCode.SocketBindFailed}
+	 * if the socket could not be bound, in the "throw" {@link ErrorMode}
+	 */
+	open() {
+		return toOutcome(this.errors, this.bind());
+	}
+
+	private bind(): Promise<void> {
+		if (this._state == WikariState.READY) return Promise.resolve();
+		if (this.opening) return this.opening;
+
+		if (this._state == WikariState.CLOSED) this.attach();
+		this.setState(WikariState.BINDING);
+
+		this.opening = new Promise<void>((resolve, reject) => {
+			let settled = false;
+			const fail = (error: WikariError) => {
+				if (settled) return;
+				settled = true;
+				this.opening = undefined;
+				this.cancelOpening = undefined;
+				this.detach();
+				reject(error);
+			};
+
+			this.cancelOpening = fail;
+			this.transport.bind(this.listenPort, this.address).then(
+				() => {
+					// the client was closed while binding
+					if (settled) return;
+					settled = true;
+
+					this.opening = undefined;
+					this.cancelOpening = undefined;
+					this.setState(WikariState.READY);
+					resolve();
+				},
+				(error: Error) =>
+					fail(
+						new WikariError(
+							WikariErrorCode.SocketBindFailed,
+							{ error },
+							`Failed to bind to port ${this.listenPort}`,
+						),
+					),
+			);
+		});
+
+		return this.opening;
+	}
+
+	/**
+	 * Closes the transport, no matter how many users the client has. Requests
+	 * that are still waiting for a response are rejected, and subscriptions
+	 * are stopped. The client can be opened again with {@link WikariClient.open}.
+	 */
+	close() {
+		if (this._state == WikariState.CLOSED) return;
+
+		// failing the binding detaches the client already
+		if (this.cancelOpening)
+			return this.cancelOpening(
+				new WikariError(
+					WikariErrorCode.InvalidBulbState,
+					{ state: WikariState.CLOSED, expectedState: [WikariState.READY] },
+					"The client was closed before the socket was bound",
+				),
+			);
+		this.detach();
+	}
+
+	/**
+	 * Adds a user to the client, opening it if it's not open.
+	 * Every {@link Bulb} does this when it's created.
+	 */
+	ref() {
+		this.refCount++;
+		// a failure to bind is reported through the state of the client
+		if (this._state != WikariState.READY) this.bind().catch(() => {});
+		return this;
+	}
+
+	/**
+	 * Removes a user from the client, closing it once there are no users
+	 * left. Every {@link Bulb} does this in {@link Bulb.closeConnection}.
+	 */
+	unref() {
+		if (this.refCount == 0) return this;
+
+		this.refCount--;
+		if (this.refCount == 0) this.close();
+		return this;
+	}
+
+	/**
+	 * @returns a request ID that is not used by any in-flight request
+	 */
+	nextId() {
+		return this.multiplexer.nextId();
+	}
+
+	/**
+	 * Sends a message and resolves with the matching response,
+	 * see {@link RequestMultiplexer.request}.
+	 *
+	 * This is what bulbs send their requests with, so it rejects in every
+	 * error mode and leaves reporting errors to the bulbs.
+	 */
+	request(
+		message: Message,
+		address: string,
+		port: number,
+		timeoutMs: number,
+	): Promise<GenericResponse> {
+		return this.multiplexer.request(message, address, port, timeoutMs);
+	}
+
+	/**
+	 * Sends a message without waiting for a response. Like
+	 * {@link WikariClient.request}, this rejects in every error mode.
+	 * @throws a {@link WikariError} with {@link WikariErrorCode.RequestSendError}
+	 * if the message could not be sent
+	 */
+	send(message: Message, address: string, port: number): Promise<void> {
+		return this.transport
+			.send(JSON.stringify(message), port, address)
+			.catch((error: Error) => {
+				throw new WikariError(
+					WikariErrorCode.RequestSendError,
+					{ error },
+					"Failed to send request to bulb",
+				);
+			});
+	}
+
+	/**
+	 * Starts delivering the messages sent from the address of the route to it.
+	 */
+	addRoute(route: MessageRoute) {
+		this.routes.add(route);
+	}
+
+	removeRoute(route: MessageRoute) {
+		this.routes.delete(route);
+	}
+
+	private attach() {
+		this.transport.on("message", this.route);
+		this.multiplexer = new RequestMultiplexer(this.transport);
+	}
+
+	private detach() {
+		this.multiplexer.close();
+		this.transport.off("message", this.route);
+		// a transport that failed to bind has nothing to close
+		this.transport.close().catch(() => {});
+
+		this.setState(WikariState.CLOSED);
+		for (const route of this.routes) route.closed();
+	}
+
+	private setState(state: WikariState) {
+		this._state = state;
+		this.emit("state-change", state);
+	}
+
+	// Every bulb shares the transport of it's client, so instead of every bulb
+	// adding it's own listener to it, a single listener passes the messages
+	// on to the bulbs that have listeners for them.
+	private readonly route = (data: Buffer, peer: TransportPeer) => {
+		const routes = [...this.routes].filter(r => r.address() == peer.address);
+		if (!routes.length) return;
+
+		let msg: Message | WikariError;
+		try {
+			msg = JSON.parse(data.toString());
+		} catch (error) {
+			msg = new WikariError(
+				WikariErrorCode.ResponseParseFailed,
+				{ response: data.toString(), error: error as Error },
+				"Failed to parse message from bulb",
+			);
+		}
+
+		for (const route of routes) route.deliver(msg);
+	};
+}
@@ -0,0 +1,324 @@
+import {
+	COOL_WHITE_KELVIN,
+	COOL_WHITE_RGB,
+	CSS_COLORS,
+	WARM_WHITE_KELVIN,
+	WARM_WHITE_RGB,
+} from "./constants";
+import { hexToRgb } from "./utils";
+import { WikariError, WikariErrorCode } from "./wikari-error";
+
+export type RgbColor = { r: number; g: number; b: number };
+
+/**
+ * A color as the bulbs take it, with c being the cool white
+ * component and w being the warm white component.
+ * Each value is in the range 0-255.
+ */
+export type RgbcwColor = {
+	r?: number;
+	g?: number;
+	b?: number;
+	c?: number;
+	w?: number;
+};
+
+/**
+ * h is the hue in degrees (0-360), s and v are
+ * the saturation and value in percent (0-100).
+ */
+export type HsvColor = { h: number; s: number; v: number };
+
+/**
+ * h is the hue in degrees (0-360), s and l are
+ * the saturation and lightness in percent (0-100).
+ */
+export type HslColor = { h: number; s: number; l: number };
+
+export type CssColorName = keyof typeof CSS_COLORS;
+
+/**
+ * Anything {@link parseColor} understands:
+ * * an {@link RgbcwColor}, {@link HsvColor} or {@link HslColor} object
+ * * a hex color code, e.g. `#f44336` or `#f43`
+ * * a CSS color name, e.g. `tomato`
+ * * a CSS `rgb()` or `hsl()` string, e.g. `rgb(244, 67, 54)` or
+ *   `hsl(4 90% 58%)` (alpha is ignored)
+ */
+export type ColorInput =
+	| RgbcwColor
+	| HsvColor
+	| HslColor
+	| `#${string}`
+	| CssColorName
+	| (string & {});
+
+export type ColorOptions = {
+	// split the color into red, green and blue plus cool and
+	// warm white, see {@link toPerceptualRgbcw}
+	perceptual?: boolean;
+};
+
+const clamp = (value: number, min: number, max: number) =>
+	Math.min(Math.max(value, min), max);
+
+const checkRange = (
+	argument: string,
+	value: number,
+	lowerLimit: number,
+	higherLimit: number,
+) => {
+	if (value < lowerLimit || value > higherLimit || Number.isNaN(value))
+		throw new WikariError(
+			WikariErrorCode.ArgumentOutOfRange,
+			{ argument, lowerLimit, higherLimit, provided: value },
+			`'${argument}' must be in the range ${lowerLimit} <> ${higherLimit}`,
+		);
+};
+
+// shared by hsv and hsl, where chroma is the difference between the
+// highest and lowest channel and min is the lowest channel, from 0 to 1
+const hueToRgb = (h: number, chroma: number, min: number): RgbColor => {
+	const sector = (((h % 360) + 360) % 360) / 60;
+	const x = chroma * (1 - Math.abs((sector % 2) - 1));
+
+	const [r, g, b] =
+		sector < 1
+			? [chroma, x, 0]
+			: sector < 2
+			? [x, chroma, 0]
+			: sector < 3
+			? [0, chroma, x]
+			: sector < 4
+			? [0, x, chroma]
+			: sector < 5
+			? [x, 0, chroma]
+			: [chroma, 0, x];
+
+	return {
+		r: Math.round((r + min) * 255),
+		g: Math.round((g + min) * 255),
+		b: Math.round((b + min) * 255),
+	};
+};
+
+export function hsvToRgb({ h, s, v }: HsvColor): RgbColor {
+	const chroma = (v / 100) * (s / 100);
+	return hueToRgb(h, chroma, v / 100 - chroma);
+}
+
+export function hslToRgb({ h, s, l }: HslColor): RgbColor {
+	const chroma = (1 - Math.abs((2 * l) / 100 - 1)) * (s / 100);
+	return hueToRgb(h, chroma, l / 100 - chroma / 2);
+}
+
+export function rgbToHsv({ r, g, b }: RgbColor): HsvColor {
+	const max = Math.max(r, g, b);
+	const chroma = max - Math.min(r, g, b);
+
+	let h = 0;
+	if (chroma != 0) {
+		if (max == r) h = 60 * (((g - b) / chroma + 6) % 6);
+		else if (max == g) h = 60 * ((b - r) / chroma + 2);
+		else h = 60 * ((r - g) / chroma + 4);
+	}
+
+	return {
+		h: Math.round(h),
+		s: max == 0 ? 0 : Math.round((chroma / max) * 100),
+		v: Math.round((max / 255) * 100),
+	};
+}
+
+export function rgbToHex({ r, g, b }: RgbColor): `#${string}` {
+	return `#${[r, g, b]
+		.map(value => Math.round(value).toString(16).padStart(2, "0"))
+		.join("")}`;
+}
+
+/**
+ * Approximates what an rgbcw color looks like as plain RGB, e.g. to show
+ * it on a screen, by adding the look of the white LEDs to the color.
+ */
+export function rgbcwToRgb({
+	r = 0,
+	g = 0,
+	b = 0,
+	c = 0,
+	w = 0,
+}: RgbcwColor): RgbColor {
+	const mix = (channel: number, key: keyof RgbColor) =>
+		Math.round(
+			clamp(
+				channel + (c * COOL_WHITE_RGB[key] + w * WARM_WHITE_RGB[key]) / 255,
+				0,
+				255,
+			),
+		);
+
+	return { r: mix(r, "r"), g: mix(g, "g"), b: mix(b, "b") };
+}
+
+// the arguments of rgb() and hsl(), separated by commas or spaces,
+// with an optional alpha after a slash or comma
+const CSS_FUNCTION_REGEX = /^(rgba?|hsla?)\(\s*([^)]*?)\s*\)$/i;
+
+const parseCssNumber = (value: string, percentOf: number) => {
+	const number = parseFloat(value);
+	if (!/^[+-]?(\d+\.?\d*|\.\d+)(%|deg)?$/.test(value)) return NaN;
+
+	return value.endsWith("%") ? (number / 100) * percentOf : number;
+};
+
+const parseCssFunction = (color: string): RgbColor | undefined => {
+	const match = CSS_FUNCTION_REGEX.exec(color);
+	if (!match) return;
+
+	const args = match[2].split(/\s*[,/]\s*|\s+/);
+	// the alpha is ignored, since the bulbs have no use for it
+	if (args.length != 3 && args.length != 4) return;
+
+	if (match[1].toLowerCase().startsWith("rgb")) {
+		const [r, g, b] = args.slice(0, 3).map(arg => parseCssNumber(arg, 255));
+		if ([r, g, b].some(Number.isNaN)) return;
+
+		// CSS clamps out of range values instead of rejecting them
+		return {
+			r: Math.round(clamp(r, 0, 255)),
+			g: Math.round(clamp(g, 0, 255)),
+			b: Math.round(clamp(b, 0, 255)),
+		};
+	}
+
+	const [h, s, l] = args.slice(0, 3).map(arg => parseCssNumber(arg, 100));
+	if ([h, s, l].some(Number.isNaN)) return;
+
+	return hslToRgb({ h, s: clamp(s, 0, 100), l: clamp(l, 0, 100) });
+};
+
+// `in` would also match inherited keys such as "constructor"
+const isCssColorName = (name: string): name is CssColorName =>
+	Object.prototype.hasOwnProperty.call(CSS_COLORS, name);
+
+/**
+ * Parses a color string, see {@link ColorInput} for what is understood.
+ *
+ * @throws a {@link WikariError} with {@link WikariErrorCode.InvalidArgument}
+ * if the string is not a color
+ */
+export function parseColor(color: string): RgbColor {
+	const trimmed = color.trim();
+	const name = trimmed.toLowerCase();
+
+	const rgb = isCssColorName(name)
+		? hexToRgb(CSS_COLORS[name])
+		: parseCssFunction(trimmed) ?? hexToRgb(trimmed as `#${string}`);
+
+	if (rgb instanceof Error)
+		throw new WikariError(
+			WikariErrorCode.InvalidArgument,
+			{ argument: "color", provided: color },
+			`'${color}' is not a valid color`,
+		);
+
+	return rgb;
+}
+
+/**
+ * Mixes the cool and warm white LEDs of a bulb to get close to a
+ * color temperature, the way the bulbs themselves do it. The mix is
+ * done on the mired scale, which is closer to how we perceive it.
+ *
+ * @param kelvin the color temperature, clamped to the range
+ * @param range the temperatures of the warm and cool white LEDs
+ * @returns the c and w components, adding up to 255
+ */
+export function kelvinToRgbcw(
+	kelvin: number,
+	range = { min: WARM_WHITE_KELVIN, max: COOL_WHITE_KELVIN },
+): { c: number; w: number } {
+	const clamped = clamp(kelvin, range.min, range.max);
+	const coolShare =
+		range.max == range.min
+			? 0.5
+			: (1 / range.min - 1 / clamped) / (1 / range.min - 1 / range.max);
+
+	const c = Math.round(coolShare * 255);
+	return { c, w: 255 - c };
+}
+
+/**
+ * Splits a color into red, green and blue plus cool and warm white.
+ *
+ * The part that the red, green and blue channels have in common is
+ * white, which looks washed out when mixed from colored LEDs, so it is
+ * moved to the white LEDs instead. What is left of the color decides
+ * whether that white is warmer or cooler: reddish colors get more warm
+ * white, bluish colors more cool white. This makes pastel and near-white
+ * colors look far closer to what they look like on a screen.
+ *
+ * Components that end up at 0 are left out, since the bulbs take missing
+ * ones as 0, so that colors without any white can still be set on bulbs
+ * without tunable white and the other way around.
+ */
+export function toPerceptualRgbcw({ r, g, b }: RgbColor): RgbcwColor {
+	const white = Math.min(r, g, b);
+	const coolShare = clamp(0.5 + (b - r) / 510, 0, 1);
+	const c = Math.round(white * coolShare);
+
+	const rgbcw = Object.fromEntries(
+		Object.entries({
+			r: r - white,
+			g: g - white,
+			b: b - white,
+			c,
+			w: white - c,
+		}).filter(([, value]) => value > 0),
+	);
+
+	// black still has to be set as a color
+	return Object.keys(rgbcw).length ? rgbcw : { r: 0, g: 0, b: 0 };
+}
+
+/**
+ * Converts any {@link ColorInput} into the components the bulbs take.
+ *
+ * @param color the color to convert
+ * @param options
+ * * perceptual: split the color into red, green and blue plus cool and
+ *   warm white, see {@link toPerceptualRgbcw}. Objects that already have
+ *   a c or w component are left as they are.
+ * @throws a {@link WikariError} with {@link WikariErrorCode.ArgumentOutOfRange}
+ * if a component is out of it's range, or with
+ * {@link WikariErrorCode.InvalidArgument} if a string is not a color
+ */
+export function toRgbcw(
+	color: ColorInput,
+	options: ColorOptions = {},
+): RgbcwColor {
+	let rgbcw: RgbcwColor;
+
+	if (typeof color == "string") rgbcw = parseColor(color);
+	else if ("h" in color) {
+		checkRange("h", color.h, 0, 360);
+		checkRange("s", color.s, 0, 100);
+
+		if ("v" in color) {
+			checkRange("v", color.v, 0, 100);
+			rgbcw = hsvToRgb(color);
+		} else {
+			checkRange("l", color.l, 0, 100);
+			rgbcw = hslToRgb(color);
+		}
+	} else {
+		for (const [key, value] of Object.entries(color))
+			if (value != undefined) checkRange(key, value, 0, 255);
+
+		rgbcw = color;
+	}
+
+	if (!options.perceptual || "c" in rgbcw || "w" in rgbcw) return rgbcw;
+
+	const { r = 0, g = 0, b = 0 } = rgbcw;
+	return toPerceptualRgbcw({ r, g, b });
+}
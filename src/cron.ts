@@ -0,0 +1,176 @@
+import { getZonedTime, zonedTimeToMs } from "./utils";
+import { WikariError, WikariErrorCode } from "./wikari-error";
+
+/**
+ * A parsed cron expression, see {@link parseCron}.
+ */
+export type CronSchedule = {
+	minutes: number[];
+	hours: number[];
+	days: number[];
+	months: number[];
+	// 0 (sunday) to 6 (saturday)
+	weekdays: number[];
+	// whether the day of month and day of week fields do not start with `*`,
+	// like cron, which treats `*/2` as unrestricted as well
+	daysRestricted: boolean;
+	weekdaysRestricted: boolean;
+};
+
+const MACROS: Record<string, string> = {
+	"@yearly": "0 0 1 1 *",
+	"@annually": "0 0 1 1 *",
+	"@monthly": "0 0 1 * *",
+	"@weekly": "0 0 * * 0",
+	"@daily": "0 0 * * *",
+	"@midnight": "0 0 * * *",
+	"@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = "jan feb mar apr may jun jul aug sep oct nov dec".split(
+	" ",
+);
+const WEEKDAY_NAMES = "sun mon tue wed thu fri sat".split(" ");
+
+// how far ahead to look for the next occurrence, in days
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+const parseField = (
+	field: string,
+	min: number,
+	max: number,
+	names: string[] = [],
+	nameOffset = 0,
+) => {
+	const toNumber = (value: string) => {
+		const index = names.indexOf(value.toLowerCase());
+		if (index != -1) return index + nameOffset;
+		return /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+	};
+
+	const values = new Set<number>();
+	for (const part of field.split(",")) {
+		const [range, stepString] = part.split("/");
+		const step = stepString == undefined ? 1 : toNumber(stepString);
+
+		let from: number, to: number;
+		if (range == "*") [from, to] = [min, max];
+		else if (range.includes("-"))
+			[from, to] = range.split("-").map(toNumber) as [number, number];
+		else {
+			from = toNumber(range);
+			// "5/15" means every 15 starting at 5
+			to = stepString == undefined ? from : max;
+		}
+
+		if (
+			[from, to, step].some(isNaN) ||
+			from < min ||
+			to > max ||
+			from > to ||
+			step < 1
+		)
+			return undefined;
+
+		for (let v = from; v <= to; v += step) values.add(v);
+	}
+
+	return [...values].sort((a, b) => a - b);
+};
+
+/**
+ * Parses a standard five field cron expression
+ * (minute, hour, day of month, month, day of week).
+ *
+ * Supports `*`, lists (`1,15`), ranges (`9-17`), steps (`*\/15`), month and
+ * weekday names (`jan`, `mon-fri`) and the macros `@yearly`, `@monthly`,
+ * `@weekly`, `@daily` and `@hourly`. As in most cron implementations, if
+ * both the day of month and the day of week are restricted, a day matching
+ * either one matches.
+ *
+ * @throws a {@link WikariError} with {@link WikariErrorCode.InvalidArgument}
+ * if the expression is not valid
+ */
+export function parseCron(expression: string): CronSchedule {
+	const fields = (MACROS[expression.trim()] ?? expression).trim().split(/\s+/);
+
+	const invalid = (reason: string) =>
+		new WikariError(
+			WikariErrorCode.InvalidArgument,
+			{ argument: "cron", provided: expression },
+			`Invalid cron expression '${expression}': ${reason}`,
+		);
+
+	if (fields.length != 5) throw invalid("expected 5 fields");
+
+	const minutes = parseField(fields[0], 0, 59);
+	const hours = parseField(fields[1], 0, 23);
+	const days = parseField(fields[2], 1, 31);
+	const months = parseField(fields[3], 1, 12, MONTH_NAMES, 1);
+	// both 0 and 7 are sunday
+	const weekdays = parseField(fields[4], 0, 7, WEEKDAY_NAMES);
+
+	if (!minutes) throw invalid("bad minute field");
+	if (!hours) throw invalid("bad hour field");
+	if (!days) throw invalid("bad day of month field");
+	if (!months) throw invalid("bad month field");
+	if (!weekdays) throw invalid("bad day of week field");
+
+	return {
+		minutes,
+		hours,
+		days,
+		months,
+		weekdays: [...new Set(weekdays.map(d => d % 7))].sort((a, b) => a - b),
+		daysRestricted: !fields[2].startsWith("*"),
+		weekdaysRestricted: !fields[4].startsWith("*"),
+	};
+}
+
+/**
+ * Finds the next time a cron schedule fires.
+ *
+ * @param schedule the schedule, see {@link parseCron}
+ * @param after the occurrence must be strictly after this instant
+ * @param timeZone the IANA time zone the schedule is in, the system
+ * time zone if not provided
+ * @returns the next occurrence, or undefined if there is none in the
+ * next five years (e.g. for February 30th)
+ */
+export function nextCronOccurrence(
+	schedule: CronSchedule,
+	after: Date,
+	timeZone?: string,
+): Date | undefined {
+	// cron has a resolution of a minute
+	const start = Math.floor(after.getTime() / 60_000) * 60_000 + 60_000;
+	const now = getZonedTime(start, timeZone);
+
+	for (let offset = 0; offset < MAX_LOOKAHEAD_DAYS; offset++) {
+		const date = new Date(Date.UTC(now.year, now.month - 1, now.day + offset));
+		const year = date.getUTCFullYear();
+		const month = date.getUTCMonth() + 1;
+		const day = date.getUTCDate();
+
+		if (!schedule.months.includes(month)) continue;
+
+		const dayMatches = schedule.days.includes(day);
+		const weekdayMatches = schedule.weekdays.includes(date.getUTCDay());
+		const matches =
+			schedule.daysRestricted && schedule.weekdaysRestricted
+				? dayMatches || weekdayMatches
+				: dayMatches && weekdayMatches;
+		if (!matches) continue;
+
+		for (const hour of schedule.hours) {
+			if (offset == 0 && hour < now.hour) continue;
+
+			for (const minute of schedule.minutes) {
+				const ms = zonedTimeToMs({ year, month, day, hour, minute }, timeZone);
+				if (ms >= start) return new Date(ms);
+			}
+		}
+	}
+
+	return undefined;
+}
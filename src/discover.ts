@@ -1,58 +1,115 @@
-import dgram from "dgram";
-import { Bulb } from "./bulb";
+import { Bulb, ClientOption } from "./bulb";
 import { DEFAULT_DISCOVER_WAIT_MS, WIZ_BULB_LISTEN_PORT } from "./constants";
+import { ErrorMode } from "./result";
+import { Transport, TransportPeer, UdpTransport } from "./transport";
 import { checkType } from "./type-checker";
-import { GetPilotMsg, getPilotResponseTemplate } from "./types";
-import { sleep } from "./utils";
+import {
+	GetPilotMsg,
+	getPilotResponseTemplate,
+	GetPilotResponse,
+} from "./types";
+import { broadcastAddresses, sleep } from "./utils";
+
+export type DiscoverOptions<M extends ErrorMode = "throw"> = {
+	addr?: string;
+	networkInterface?: string;
+	port?: number;
+	waitMs?: number;
+	// what to send the request over, a new UdpTransport if not provided
+	transport?: Transport;
+	// the client the found bulbs use
+} & ClientOption<M>;
 
 /**
- * Discovers bulbs on a network.
- * This is done by sending a request and creating bulb instances from the devices
- * that respond.
- *
- * The first argument contains options for discovery, them being:
- * * addr: the address to send the request on (ideally a broadcast address)
- * * port: the port that the bulbs listen on
- * * waitMs: how long to wait for a response from the bulb
- *
- * If your local IP addresses do not start with 192.168.1, you'll need to
- * pass a custom addr.
+ * A bulb that responded to a discovery request.
+ */
+export type ProbeResult = {
+	mac: string;
+	address: string;
+	response: GetPilotResponse;
+};
+
+/**
+ * Sends a discovery request and collects the responses, keyed by the MAC
+ * address of the bulb that sent them. This is what {@link discover} uses
+ * under the hood, without creating any {@link Bulb} instances.
  *
- * @returns an array of {@link Bulb} instances corresponding to discovered bulbs
+ * @returns the bulbs that responded, keyed by MAC address
  */
-export async function discover({
-	addr = "192.168.1.255",
+export async function probe({
+	addr,
+	networkInterface,
 	port = WIZ_BULB_LISTEN_PORT,
 	waitMs = DEFAULT_DISCOVER_WAIT_MS,
-}): Promise<Bulb[]> {
-	const client = dgram.createSocket("udp4");
-	const bulbs: Bulb[] = [];
+	transport = new UdpTransport(),
+}: Omit<DiscoverOptions, "client">): Promise<Map<string, ProbeResult>> {
+	const results = new Map<string, ProbeResult>();
 	const message: GetPilotMsg = {
 		method: "getPilot",
 		params: {},
 	};
 
-	if (addr.split(".").includes("255")) {
-		client.once("listening", function () {
-			client.setBroadcast(true);
-		});
-	}
+	const addresses = addr ? [addr] : broadcastAddresses(networkInterface);
 
-	client.send(JSON.stringify(message), port, addr);
+	await transport.bind(0);
+	if (!addr || addr.split(".").includes("255")) transport.setBroadcast(true);
 
-	const listener = (msg: Buffer, rinfo: dgram.RemoteInfo) => {
-		const response = JSON.parse(msg.toString());
+	const listener = (msg: Buffer, rinfo: TransportPeer) => {
+		try {
+			const response = JSON.parse(msg.toString());
 
-		if (checkType(getPilotResponseTemplate, response)) {
-			bulbs.push(new Bulb(rinfo.address, { port }));
-		}
+			if (
+				checkType(getPilotResponseTemplate, response) &&
+				!results.has(response.result.mac)
+			) {
+				results.set(response.result.mac, {
+					mac: response.result.mac,
+					address: rinfo.address,
+					response,
+				});
+			}
+		} catch {}
 	};
 
-	client.on("message", listener);
+	transport.on("message", listener);
+	for (const address of addresses)
+		transport.send(JSON.stringify(message), port, address).catch(() => {});
+
 	await sleep(waitMs);
-	client.off("message", listener);
+	transport.off("message", listener);
+
+	await transport.close();
 
-	client.close();
+	return results;
+}
+
+/**
+ * Discovers bulbs on a network.
+ * This is done by sending a request and creating bulb instances from the devices
+ * that respond.
+ *
+ * The first argument contains options for discovery, them being:
+ * * addr: the address to send the request on (ideally a broadcast address)
+ * * networkInterface: only discover on the network interface with this name
+ * * port: the port that the bulbs listen on
+ * * waitMs: how long to wait for a response from the bulb
+ * * client: the client the found bulbs use
+ * * transport: what to send the request over
+ *
+ * If no addr is passed, the request is sent to the broadcast address of
+ * every non-internal IPv4 network interface, computed from it's netmask.
+ * Bulbs that respond more than once (e.g. because they are reachable from
+ * two interfaces) are only returned once, based on their MAC address.
+ *
+ * @returns an array of {@link Bulb} instances corresponding to discovered bulbs
+ */
+export async function discover<M extends ErrorMode = "throw">(
+	options: DiscoverOptions<M>,
+): Promise<Bulb<M>[]> {
+	const port = options.port ?? WIZ_BULB_LISTEN_PORT;
+	const results = await probe(options);
 
-	return bulbs;
+	return [...results.values()].map(
+		({ address }) => new Bulb<M>(address, { ...options, port }),
+	);
 }
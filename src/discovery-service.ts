@@ -0,0 +1,208 @@
+import EventEmitter from "events";
+import { Bulb, ClientOptionsParameters } from "./bulb";
+import {
+	DEFAULT_DISCOVERY_INTERVAL_MS,
+	WIZ_BULB_LISTEN_PORT,
+} from "./constants";
+import { DiscoverOptions, probe, ProbeResult } from "./discover";
+import { ErrorMode } from "./result";
+
+export type DiscoveryServiceEvents<M extends ErrorMode = "throw"> = {
+	"bulb-found": (bulb: Bulb<M>, mac: string) => void;
+	"bulb-lost": (bulb: Bulb<M>, mac: string) => void;
+	"bulb-address-changed": (
+		bulb: Bulb<M>,
+		mac: string,
+		previousAddress: string,
+	) => void;
+	"error": (error: Error) => void;
+};
+
+export declare interface DiscoveryService<M extends ErrorMode = "throw"> {
+	on<E extends keyof DiscoveryServiceEvents<M>>(
+		event: E,
+		listener: DiscoveryServiceEvents<M>[E],
+	): this;
+	once<E extends keyof DiscoveryServiceEvents<M>>(
+		event: E,
+		listener: DiscoveryServiceEvents<M>[E],
+	): this;
+	off<E extends keyof DiscoveryServiceEvents<M>>(
+		event: E,
+		listener: DiscoveryServiceEvents<M>[E],
+	): this;
+	emit<E extends keyof DiscoveryServiceEvents<M>>(
+		event: E,
+		...args: Parameters<DiscoveryServiceEvents<M>[E]>
+	): boolean;
+}
+
+type TrackedBulb<M extends ErrorMode> = {
+	bulb: Bulb<M>;
+	missedProbes: number;
+	lost: boolean;
+};
+
+/**
+ * Keeps track of the bulbs on a network by periodically running discovery.
+ *
+ * Bulbs are identified by their MAC address, so a bulb that is given a new
+ * IP address by the router keeps it's {@link Bulb} instance, which has it's
+ * address updated. The service emits:
+ *
+ * * "bulb-found" when a bulb responds for the first time, or again after
+ *   it was lost
+ * * "bulb-lost" when a bulb has not responded to `lostAfter` probes in a
+ *   row. The instance is kept, and found again if the bulb comes back
+ * * "bulb-address-changed" when a known bulb responds from a new address
+ *
+ * The bulbs use the client of the service, so call
+ * {@link DiscoveryService.close} to release it once you are done.
+ *
+ * @example
+ * ```ts
+ * const service = new DiscoveryService({ intervalMs: 10_000 });
+ * service.on("bulb-found", (bulb, mac) => console.log("found", mac));
+ * service.on("bulb-lost", (bulb, mac) => console.log("lost", mac));
+ * service.start();
+ * ```
+ */
+export class DiscoveryService<
+	M extends ErrorMode = "throw",
+> extends EventEmitter {
+	intervalMs: number;
+	lostAfter: number;
+
+	private readonly options: DiscoverOptions<M>;
+	private readonly tracked = new Map<string, TrackedBulb<M>>();
+	private timer: ReturnType<typeof setInterval> | undefined;
+	private probing: Promise<void> | undefined;
+
+	/**
+	 * @param options the options passed to {@link probe}, along with
+	 * * intervalMs: how often to probe the network
+	 * * lostAfter: how many probes in a row a bulb may miss before it's lost
+	 */
+	constructor(
+		...[options]: ClientOptionsParameters<
+			M,
+			DiscoverOptions<M> & {
+				intervalMs?: number;
+				lostAfter?: number;
+			}
+		>
+	) {
+		super();
+		// the options can only be left out when M is "throw", in which case
+		// the client is optional as well
+		this.options = options ?? ({} as DiscoverOptions<M>);
+
+		this.intervalMs = options?.intervalMs ?? DEFAULT_DISCOVERY_INTERVAL_MS;
+		this.lostAfter = options?.lostAfter ?? 3;
+	}
+
+	/**
+	 * @returns the bulbs currently known to be online, keyed by MAC address
+	 */
+	get bulbs() {
+		const bulbs = new Map<string, Bulb<M>>();
+		for (const [mac, { bulb, lost }] of this.tracked)
+			if (!lost) bulbs.set(mac, bulb);
+		return bulbs;
+	}
+
+	get running() {
+		return this.timer != undefined;
+	}
+
+	/**
+	 * Starts probing the network, immediately and then every
+	 * {@link DiscoveryService.intervalMs}.
+	 */
+	start() {
+		if (this.timer) return;
+
+		this.timer = setInterval(() => this.refresh(), this.intervalMs);
+		this.refresh();
+	}
+
+	/**
+	 * Stops probing the network. Known bulbs are kept, and
+	 * will be updated if the service is started again.
+	 */
+	stop() {
+		if (!this.timer) return;
+
+		clearInterval(this.timer);
+		this.timer = undefined;
+	}
+
+	/**
+	 * Stops probing the network and closes the connection of every bulb the
+	 * service created, including lost ones. If the service is started
+	 * again, it creates new bulbs.
+	 */
+	close() {
+		this.stop();
+
+		for (const { bulb } of this.tracked.values()) bulb.closeConnection();
+		this.tracked.clear();
+	}
+
+	/**
+	 * Probes the network once and updates the set of known bulbs. If a
+	 * probe is already running, waits for that one instead of starting
+	 * another one.
+	 */
+	refresh(): Promise<void> {
+		if (!this.probing)
+			this.probing = probe(this.options)
+				.then(results => this.update(results))
+				.catch(error => {
+					// emitting "error" without a listener would throw
+					if (this.listenerCount("error")) this.emit("error", error);
+				})
+				.finally(() => (this.probing = undefined));
+
+		return this.probing;
+	}
+
+	private update(results: Map<string, ProbeResult>) {
+		for (const [mac, { address }] of results) {
+			const tracked = this.tracked.get(mac);
+
+			if (!tracked) {
+				const bulb = new Bulb<M>(address, {
+					...this.options,
+					port: this.options.port ?? WIZ_BULB_LISTEN_PORT,
+				});
+				this.tracked.set(mac, { bulb, missedProbes: 0, lost: false });
+				this.emit("bulb-found", bulb, mac);
+				continue;
+			}
+
+			tracked.missedProbes = 0;
+			if (tracked.bulb.address != address) {
+				const previousAddress = tracked.bulb.address;
+				tracked.bulb.address = address;
+				this.emit("bulb-address-changed", tracked.bulb, mac, previousAddress);
+			}
+
+			if (tracked.lost) {
+				tracked.lost = false;
+				this.emit("bulb-found", tracked.bulb, mac);
+			}
+		}
+
+		for (const [mac, tracked] of this.tracked) {
+			if (tracked.lost || results.has(mac)) continue;
+
+			if (++tracked.missedProbes >= this.lostAfter) {
+				// the bulb is kept open, so that anyone holding on to it can
+				// keep using it once it's found again
+				tracked.lost = true;
+				this.emit("bulb-lost", tracked.bulb, mac);
+			}
+		}
+	}
+}
@@ -0,0 +1,324 @@
+import { Bulb } from "./bulb";
+import { ErrorMode, unwrapOutcome } from "./result";
+import { EASINGS } from "./transition";
+import { makeTypeTemplate, validate } from "./type-checker";
+import { Pilot, pilotTemplate } from "./types";
+import { abortableSleep } from "./utils";
+import { WikariError, WikariErrorCode } from "./wikari-error";
+
+/**
+ * How an effect moves through it's keyframes.
+ *
+ * * once: plays every keyframe in order, one time
+ * * loop: plays every keyframe in order, `repeat` times
+ * * ping-pong: plays the keyframes forwards and then backwards, `repeat` times
+ * * random: plays `repeat` randomly picked keyframes, never the same one twice
+ *   in a row
+ *
+ * Without a `repeat`, loop, ping-pong and random effects play until stopped.
+ */
+export type EffectMode = "once" | "loop" | "ping-pong" | "random";
+
+export type Keyframe = {
+	pilot: Pilot;
+	// how long to take to get to this keyframe from the previous one
+	transitionMs?: number;
+	// how long to stay at this keyframe
+	holdMs?: number;
+	easing?: keyof typeof EASINGS;
+};
+
+/**
+ * A custom effect, made of keyframes. Effects are plain data, so they can be
+ * stored as JSON and loaded with {@link parseEffect}.
+ *
+ * @example
+ * ```json
+ * {
+ *   "name": "police",
+ *   "mode": "loop",
+ *   "keyframes": [
+ *     { "pilot": { "r": 255, "g": 0, "b": 0 }, "holdMs": 300 },
+ *     { "pilot": { "r": 0, "g": 0, "b": 255 }, "holdMs": 300 }
+ *   ]
+ * }
+ * ```
+ */
+export type Effect = {
+	name?: string;
+	mode?: EffectMode;
+	repeat?: number;
+	// frame rate used for the transitions between keyframes
+	fps?: number;
+	keyframes: Keyframe[];
+};
+
+export type EffectState =
+	| "idle"
+	| "playing"
+	| "paused"
+	| "stopped"
+	| "finished";
+
+const EFFECT_MODES: EffectMode[] = ["once", "loop", "ping-pong", "random"];
+
+const keyframeTemplate = makeTypeTemplate({
+	transitionMs: ["number", false],
+	holdMs: ["number", false],
+	easing: ["string", false, { enum: Object.keys(EASINGS) }],
+	pilot: pilotTemplate,
+});
+
+const effectTemplate = makeTypeTemplate({
+	name: ["string", false],
+	mode: ["string", false, { enum: EFFECT_MODES }],
+	repeat: ["number", false],
+	fps: ["number", false],
+	keyframes: ["array", true, { items: keyframeTemplate }],
+});
+
+/**
+ * Validates an effect, e.g. one loaded from a JSON file.
+ *
+ * @param json the effect as a JSON string, or an already parsed object
+ * @returns the effect
+ * @throws a {@link WikariError} with {@link WikariErrorCode.InvalidArgument}
+ * if the effect is not valid
+ */
+export function parseEffect(json: string | unknown): Effect {
+	const invalid = (reason: string) =>
+		new WikariError(
+			WikariErrorCode.InvalidArgument,
+			{ argument: "effect", provided: json },
+			`Invalid effect: ${reason}`,
+		);
+
+	let effect: any = json;
+	if (typeof json == "string") {
+		try {
+			effect = JSON.parse(json);
+		} catch {
+			throw invalid("not valid JSON");
+		}
+	}
+
+	const diagnostics = validate(effectTemplate, effect);
+	if (diagnostics.length)
+		throw invalid(diagnostics.map(d => d.message).join(", "));
+
+	if (!effect.keyframes.length) throw invalid("there are no keyframes");
+
+	return effect as Effect;
+}
+
+/**
+ * @returns the order in which the keyframes of the effect are played
+ */
+function* keyframeOrder(effect: Effect): Generator<number> {
+	const count = effect.keyframes.length;
+	const repeat = effect.repeat ?? Infinity;
+
+	switch (effect.mode ?? "once") {
+		case "once":
+			for (let i = 0; i < count; i++) yield i;
+			break;
+
+		case "loop":
+			for (let cycle = 0; cycle < repeat; cycle++)
+				for (let i = 0; i < count; i++) yield i;
+			break;
+
+		case "ping-pong":
+			for (let cycle = 0; cycle < repeat; cycle++) {
+				for (let i = 0; i < count; i++) yield i;
+				for (let i = count - 2; i > 0; i--) yield i;
+			}
+			break;
+
+		case "random": {
+			let previous = -1;
+			for (let step = 0; step < repeat; step++) {
+				let i = Math.floor(Math.random() * count);
+				if (count > 1 && i == previous)
+					i = (i + 1 + Math.floor(Math.random() * (count - 1))) % count;
+				yield (previous = i);
+			}
+			break;
+		}
+	}
+}
+
+/**
+ * Plays an {@link Effect} on one or more bulbs.
+ *
+ * ```ts
+ * const player = new EffectPlayer(parseEffect(json), bulbs);
+ * player.play();
+ *
+ * player.pause();
+ * player.resume();
+ * player.stop();
+ * ```
+ *
+ * A bulb failing to respond does not stop the effect, the error is passed
+ * to `onError` instead.
+ */
+export class EffectPlayer<M extends ErrorMode = "throw"> {
+	readonly effect: Effect;
+	readonly bulbs: Bulb<M>[];
+
+	private _state: EffectState = "idle";
+	private controller = new AbortController();
+	private playing: Promise<void> | undefined;
+	private resumed: (() => void) | undefined;
+	private readonly onError:
+		| ((error: unknown, bulb: Bulb<M>) => void)
+		| undefined;
+
+	/**
+	 * @param effect the effect to play
+	 * @param bulbs the bulbs to play it on
+	 * @param options
+	 * * onError: called when sending a keyframe to a bulb fails
+	 */
+	constructor(
+		effect: Effect,
+		bulbs: Bulb<M> | Iterable<Bulb<M>>,
+		options: { onError?: (error: unknown, bulb: Bulb<M>) => void } = {},
+	) {
+		this.effect = effect;
+		this.bulbs = bulbs instanceof Bulb ? [bulbs] : [...bulbs];
+		this.onError = options.onError;
+	}
+
+	get state() {
+		return this._state;
+	}
+
+	/**
+	 * Starts playing the effect.
+	 * @returns a promise that resolves when the effect is finished or stopped
+	 */
+	play(): Promise<void> {
+		if (!this.playing) {
+			this._state = "playing";
+			this.playing = this.run();
+		}
+
+		return this.playing;
+	}
+
+	/**
+	 * Pauses the effect, leaving the bulbs as they are.
+	 */
+	pause() {
+		if (this._state != "playing") return;
+
+		this._state = "paused";
+		this.controller.abort();
+	}
+
+	/**
+	 * Resumes a paused effect from where it was paused.
+	 */
+	resume() {
+		if (this._state != "paused") return;
+
+		this._state = "playing";
+		this.controller = new AbortController();
+		this.resumed?.();
+	}
+
+	/**
+	 * Stops the effect, leaving the bulbs as they are.
+	 * A stopped effect cannot be resumed.
+	 */
+	stop() {
+		if (this._state == "stopped" || this._state == "finished") return;
+
+		this._state = "stopped";
+		this.controller.abort();
+		this.resumed?.();
+	}
+
+	private async run() {
+		let previous: Pilot | undefined;
+
+		for (const index of keyframeOrder(this.effect)) {
+			const keyframe = this.effect.keyframes[index];
+			if (!(await this.playKeyframe(keyframe, previous))) return;
+			previous = keyframe.pilot;
+		}
+
+		this._state = "finished";
+	}
+
+	// resolves with false if the effect was stopped
+	private async playKeyframe(keyframe: Keyframe, from: Pilot | undefined) {
+		let transitionLeft = keyframe.transitionMs ?? 0;
+		let holdLeft = keyframe.holdMs ?? 0;
+		let reached = false;
+
+		while (true) {
+			const signal = this.controller.signal;
+			const startedAt = Date.now();
+
+			if (!reached) {
+				reached = await this.apply(keyframe, transitionLeft, from, signal);
+				transitionLeft -= Date.now() - startedAt;
+			} else if (holdLeft > 0) {
+				if (await abortableSleep(holdLeft, signal)) holdLeft = 0;
+				else holdLeft -= Date.now() - startedAt;
+			} else return true;
+
+			if (signal.aborted) {
+				// the bulbs may not be where the keyframe left them anymore
+				from = undefined;
+				if (!(await this.waitForResume())) return false;
+			}
+		}
+	}
+
+	// resolves with true once every bulb has reached the keyframe
+	private async apply(
+		keyframe: Keyframe,
+		durationMs: number,
+		from: Pilot | undefined,
+		signal: AbortSignal,
+	) {
+		const results = await Promise.allSettled(
+			this.bulbs.map(async bulb => {
+				const { errors } = bulb.client;
+
+				if (durationMs > 0)
+					unwrapOutcome(
+						errors,
+						await bulb.transition(keyframe.pilot, {
+							durationMs,
+							easing: keyframe.easing,
+							fps: this.effect.fps,
+							from,
+							signal,
+						}),
+					);
+				else unwrapOutcome(errors, await bulb.setPilot(keyframe.pilot));
+			}),
+		);
+
+		results.forEach((result, i) => {
+			if (result.status == "rejected")
+				this.onError?.(result.reason, this.bulbs[i]);
+		});
+
+		return !signal.aborted;
+	}
+
+	// resolves with false if the effect was stopped instead of resumed
+	private async waitForResume() {
+		if (this._state == "paused")
+			await new Promise<void>(resolve => (this.resumed = resolve));
+		this.resumed = undefined;
+
+		return this._state == "playing";
+	}
+}
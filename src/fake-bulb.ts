@@ -0,0 +1,335 @@
+import { DEFAULT_SYNC_INTERVAL_MS } from "./constants";
+import { mergePilot } from "./pilot";
+import { checkType } from "./type-checker";
+import {
+	GetModelConfigResponse,
+	GetPilotResponse,
+	GetSystemConfigResponse,
+	Pilot,
+	pilotTemplate,
+	SyncPilotResponse,
+} from "./types";
+import { Transport, TransportPeer, UdpTransport } from "./transport";
+import { getRandomMac, sleep } from "./utils";
+
+/**
+ * Faults that a {@link FakeBulb} can inject into its responses.
+ *
+ * * packetLoss: probability (0 to 1) that a request is silently dropped
+ * * latencyMs: delay before responding, or a [min, max] range to pick from
+ * * errorRate: probability (0 to 1) that a request is answered with an error
+ */
+export type FakeBulbFaults = {
+	packetLoss: number;
+	latencyMs: number | [number, number];
+	errorRate: number;
+};
+
+type Subscriber = {
+	address: string;
+	port: number;
+};
+
+type PilotState = Required<Pick<Pilot, "state" | "sceneId" | "dimming">> &
+	Omit<Pilot, "state" | "sceneId" | "dimming">;
+
+// JSON-RPC style errors, as returned by the bulb firmware
+const METHOD_NOT_FOUND = { code: -32601, message: "Method not found" };
+const INVALID_PARAMS = { code: -32602, message: "Invalid params" };
+const INTERNAL_ERROR = { code: -32603, message: "Internal error" };
+
+/**
+ * A fake WiZ bulb that speaks the bulb side of the protocol over UDP
+ * (or any other {@link Transport}), for testing without any hardware.
+ *
+ * It answers `getPilot`, `setPilot`, `getSystemConfig`, `getModelConfig`
+ * and `registration` requests, keeps track of its state the same way a
+ * real bulb does (setting a color clears the scene and temperature and so
+ * on), and pushes `syncPilot` messages to registered clients whenever the
+ * state changes and every
+ * {@link DEFAULT_SYNC_INTERVAL_MS} otherwise.
+ *
+ * @example
+ * ```ts
+ * const fake = new FakeBulb({ faults: { packetLoss: 0.2 } });
+ * const port = await fake.listen(0, "127.0.0.1");
+ *
+ * const bulb = new Bulb("127.0.0.1", { port });
+ * await bulb.turn(true);
+ *
+ * // or, through discovery
+ * const bulbs = await discover({ addr: "127.0.0.1", port });
+ * ```
+ *
+ * Unlike a real bulb, `syncPilot` messages are sent to the address and
+ * port that the registration came from, rather than the `phoneIp`
+ * in its params, so that it works on the loopback interface.
+ */
+export class FakeBulb {
+	readonly mac: string;
+	readonly moduleName: string;
+	readonly fwVersion: string;
+	readonly modelConfig: GetModelConfigResponse["result"] | undefined;
+	homeId: number;
+	roomId: number;
+	rssi: number;
+	faults: FakeBulbFaults;
+	syncIntervalMs: number;
+	readonly transport: Transport;
+
+	private readonly subscribers = new Map<string, Subscriber>();
+	private syncTimer: ReturnType<typeof setInterval> | undefined;
+	private syncId = 0;
+	private _pilot: PilotState;
+
+	constructor(
+		options: {
+			mac?: string;
+			moduleName?: string;
+			fwVersion?: string;
+			// null makes the bulb behave like firmware without getModelConfig
+			modelConfig?: GetModelConfigResponse["result"] | null;
+			homeId?: number;
+			roomId?: number;
+			rssi?: number;
+			pilot?: Pilot;
+			faults?: Partial<FakeBulbFaults>;
+			syncIntervalMs?: number;
+			transport?: Transport;
+		} = {},
+	) {
+		this.mac = options.mac ?? getRandomMac();
+		this.moduleName = options.moduleName ?? "ESP01_SHRGB_03";
+		this.fwVersion = options.fwVersion ?? "1.25.0";
+		this.modelConfig =
+			options.modelConfig === null
+				? undefined
+				: options.modelConfig ?? {
+						ps: 1,
+						pwmFreq: 1000,
+						pwmRange: [0, 100],
+						wcr: 30,
+						nowc: 2,
+						cctRange: [2200, 2700, 6500, 6500],
+				  };
+		this.homeId = options.homeId ?? 0;
+		this.roomId = options.roomId ?? 0;
+		this.rssi = options.rssi ?? -50;
+		this.syncIntervalMs = options.syncIntervalMs ?? DEFAULT_SYNC_INTERVAL_MS;
+		this.faults = {
+			packetLoss: 0,
+			latencyMs: 0,
+			errorRate: 0,
+			...options.faults,
+		};
+		this._pilot = { state: true, sceneId: 0, dimming: 100, temp: 2700 };
+		if (options.pilot) this.applyPilot(options.pilot);
+
+		this.transport = options.transport ?? new UdpTransport();
+		this.transport.on("message", (msg, rinfo) =>
+			this.handleMessage(msg, rinfo),
+		);
+	}
+
+	/**
+	 * @returns a copy of the current state of the fake bulb
+	 */
+	get pilot(): PilotState {
+		return { ...this._pilot };
+	}
+
+	/**
+	 * The port the fake bulb is listening on.
+	 * Only valid after {@link FakeBulb.listen} has resolved.
+	 */
+	get port() {
+		return this.transport.address().port;
+	}
+
+	/**
+	 * Binds the fake bulb to a port of its transport.
+	 *
+	 * @param port the port to listen on, 0 picks a random free port
+	 * @param address the address to listen on, all addresses by default
+	 * @returns the port the fake bulb is listening on
+	 */
+	async listen(port = 0, address?: string): Promise<number> {
+		await this.transport.bind(port, address);
+		return this.port;
+	}
+
+	/**
+	 * Changes the state of the fake bulb as if someone had used a
+	 * physical switch or the WiZ app, and notifies the subscribers.
+	 *
+	 * @param pilot the pilot to apply
+	 * @param src the source reported in the `syncPilot` message,
+	 * the WiZ app by default
+	 */
+	setPilot(pilot: Pilot, src = "app") {
+		this.applyPilot(pilot);
+		this.sync(src);
+	}
+
+	/**
+	 * Sends a `syncPilot` message to every subscriber.
+	 * @param src the source reported in the message
+	 */
+	sync(src = "hb") {
+		for (const subscriber of this.subscribers.values()) {
+			const message: SyncPilotResponse = {
+				method: "syncPilot",
+				id: ++this.syncId,
+				env: "pro",
+				params: {
+					mac: this.mac,
+					rssi: this.rssi,
+					src,
+					...this._pilot,
+				},
+			};
+
+			this.send(message, subscriber.address, subscriber.port);
+		}
+	}
+
+	/**
+	 * Stops listening and stops sending `syncPilot` messages.
+	 */
+	close(): Promise<void> {
+		this.subscribers.clear();
+		this.updateSyncTimer();
+
+		return this.transport.close();
+	}
+
+	private async handleMessage(msg: Buffer, rinfo: TransportPeer) {
+		let request: any;
+		try {
+			request = JSON.parse(msg.toString());
+		} catch {
+			return;
+		}
+		if (typeof request != "object" || request == null) return;
+
+		// the bulb does not answer acknowledgements for its own messages
+		if (request.method == "syncPilot") return;
+
+		if (Math.random() < this.faults.packetLoss) return;
+
+		const latency = this.faults.latencyMs;
+		const delay = Array.isArray(latency)
+			? latency[0] + Math.random() * (latency[1] - latency[0])
+			: latency;
+		if (delay > 0) await sleep(delay);
+
+		const base = {
+			method: request.method,
+			...(typeof request.id == "number" && { id: request.id }),
+			env: "pro",
+		};
+
+		if (Math.random() < this.faults.errorRate) {
+			this.send({ ...base, error: INTERNAL_ERROR }, rinfo.address, rinfo.port);
+			return;
+		}
+
+		const params = request.params ?? {};
+		let reply: Record<string, any>;
+
+		switch (request.method) {
+			case "getPilot": {
+				const result: GetPilotResponse["result"] = {
+					mac: this.mac,
+					rssi: this.rssi,
+					src: "",
+					...this._pilot,
+				};
+				reply = { ...base, result };
+				break;
+			}
+
+			case "getSystemConfig": {
+				const result: GetSystemConfigResponse["result"] = {
+					mac: this.mac,
+					homeId: this.homeId,
+					roomId: this.roomId,
+					rgn: "eu",
+					moduleName: this.moduleName,
+					fwVersion: this.fwVersion,
+					groupId: 0,
+					ping: 0,
+				};
+				reply = { ...base, result };
+				break;
+			}
+
+			case "getModelConfig": {
+				reply = this.modelConfig
+					? { ...base, result: this.modelConfig }
+					: { ...base, error: METHOD_NOT_FOUND };
+				break;
+			}
+
+			case "setPilot": {
+				// like the firmware, values out of range are rejected
+				if (!checkType(pilotTemplate, params)) {
+					reply = { ...base, error: INVALID_PARAMS };
+					break;
+				}
+
+				this.applyPilot(params);
+				reply = { ...base, result: { success: true } };
+				this.sync("udp");
+				break;
+			}
+
+			case "registration": {
+				if (
+					typeof params.register != "boolean" ||
+					typeof params.phoneMac != "string"
+				) {
+					reply = { ...base, error: INVALID_PARAMS };
+					break;
+				}
+
+				const key = `${rinfo.address}:${rinfo.port}`;
+				if (params.register)
+					this.subscribers.set(key, {
+						address: rinfo.address,
+						port: rinfo.port,
+					});
+				else this.subscribers.delete(key);
+				this.updateSyncTimer();
+
+				reply = { ...base, result: { mac: this.mac, success: true } };
+				break;
+			}
+
+			default:
+				reply = { ...base, error: METHOD_NOT_FOUND };
+		}
+
+		this.send(reply, rinfo.address, rinfo.port);
+	}
+
+	// mimics how the bulb firmware resolves conflicting settings:
+	// a scene, a white temperature and a color are mutually exclusive
+	private applyPilot(pilot: Pilot) {
+		this._pilot = mergePilot(this._pilot, pilot) as PilotState;
+	}
+
+	private updateSyncTimer() {
+		if (this.subscribers.size && !this.syncTimer) {
+			this.syncTimer = setInterval(() => this.sync(), this.syncIntervalMs);
+		} else if (!this.subscribers.size && this.syncTimer) {
+			clearInterval(this.syncTimer);
+			this.syncTimer = undefined;
+		}
+	}
+
+	private send(message: Record<string, any>, address: string, port: number) {
+		// like a real bulb, failing to send is not reported anywhere
+		this.transport.send(JSON.stringify(message), port, address).catch(() => {});
+	}
+}
@@ -0,0 +1,163 @@
+import EventEmitter from "events";
+import { Transport, TransportEvents, TransportPeer } from "./transport";
+
+// ports picked when binding to port 0, like the ephemeral ports of an OS
+const FIRST_EPHEMERAL_PORT = 49152;
+const LAST_EPHEMERAL_PORT = 65535;
+
+const key = (address: string, port: number) => `${address}:${port}`;
+
+const isBroadcast = (address: string) =>
+	address == "255.255.255.255" || address.endsWith(".255");
+
+/**
+ * A network that only exists in memory, connecting {@link MemoryTransport}s.
+ *
+ * Packets are delivered asynchronously, in the order they were sent, and
+ * never lost. Packets sent to a broadcast address (ending in `.255`) are
+ * delivered to every transport bound to the port, other than the sender.
+ */
+export class MemoryNetwork {
+	private readonly bound = new Map<string, MemoryTransport>();
+	private nextPort = FIRST_EPHEMERAL_PORT;
+
+	/**
+	 * @returns a new transport on this network with the given address
+	 */
+	transport(address: string) {
+		return new MemoryTransport(this, address);
+	}
+
+	// the following are used by MemoryTransport
+	attach(transport: MemoryTransport, address: string, port: number) {
+		if (port == 0) port = this.freePort(address);
+
+		if (this.bound.has(key(address, port)))
+			throw new Error(`Address ${key(address, port)} is already in use`);
+
+		this.bound.set(key(address, port), transport);
+		return port;
+	}
+
+	detach(address: string, port: number) {
+		this.bound.delete(key(address, port));
+	}
+
+	deliver(from: TransportPeer, data: string, port: number, address: string) {
+		const sender = key(from.address, from.port);
+		const receivers = isBroadcast(address)
+			? [...this.bound]
+					.filter(([k]) => k.endsWith(`:${port}`) && k != sender)
+					.map(([, transport]) => transport)
+			: [this.bound.get(key(address, port))];
+
+		for (const receiver of receivers)
+			if (receiver) setImmediate(() => receiver.receive(data, from));
+	}
+
+	private freePort(address: string) {
+		for (
+			let tries = 0;
+			tries <= LAST_EPHEMERAL_PORT - FIRST_EPHEMERAL_PORT;
+			tries++
+		) {
+			const port = this.nextPort;
+			this.nextPort =
+				port == LAST_EPHEMERAL_PORT ? FIRST_EPHEMERAL_PORT : port + 1;
+
+			if (!this.bound.has(key(address, port))) return port;
+		}
+
+		throw new Error(`No free ports left on ${address}`);
+	}
+}
+
+export declare interface MemoryTransport {
+	on<E extends keyof TransportEvents>(
+		event: E,
+		listener: TransportEvents[E],
+	): this;
+	off<E extends keyof TransportEvents>(
+		event: E,
+		listener: TransportEvents[E],
+	): this;
+	emit<E extends keyof TransportEvents>(
+		event: E,
+		...args: Parameters<TransportEvents[E]>
+	): boolean;
+}
+
+/**
+ * A {@link Transport} on a {@link MemoryNetwork}, for testing without
+ * touching the real network.
+ *
+ * @example
+ * ```ts
+ * const network = new MemoryNetwork();
+ *
+ * const fake = new FakeBulb({ transport: network.transport("10.0.0.5") });
+ * await fake.listen(38899);
+ *
+ * const client = new WikariClient({ transport: network.transport("10.0.0.2") });
+ * const bulb = client.bulb("10.0.0.5");
+ * await client.open();
+ *
+ * await bulb.turn(true);
+ * ```
+ */
+export class MemoryTransport extends EventEmitter implements Transport {
+	readonly network: MemoryNetwork;
+	// the address of the host the transport is on
+	readonly host: string;
+
+	private port: number | undefined;
+	private broadcast = false;
+
+	constructor(network: MemoryNetwork, host: string) {
+		super();
+		this.network = network;
+		this.host = host;
+	}
+
+	async bind(port: number, address?: string) {
+		if (this.port != undefined)
+			throw new Error("The transport is already bound");
+
+		// there is only one address to listen on
+		if (address != undefined && address != this.host)
+			throw new Error(`Cannot bind to ${address} from ${this.host}`);
+
+		this.port = this.network.attach(this, this.host, port);
+	}
+
+	async close() {
+		if (this.port == undefined) return;
+
+		this.network.detach(this.host, this.port);
+		this.port = undefined;
+		this.broadcast = false;
+	}
+
+	async send(data: string, port: number, address: string) {
+		if (this.port == undefined) await this.bind(0);
+
+		if (isBroadcast(address) && !this.broadcast)
+			throw new Error("Sending to a broadcast address is not allowed");
+
+		this.network.deliver(this.address(), data, port, address);
+	}
+
+	setBroadcast(flag: boolean) {
+		this.broadcast = flag;
+	}
+
+	address(): TransportPeer {
+		return { address: this.host, port: this.port as number };
+	}
+
+	// used by MemoryNetwork
+	receive(data: string, from: TransportPeer) {
+		// the transport may have been closed in the meantime
+		if (this.port != undefined) this.emit("message", Buffer.from(data), from);
+	}
+}
@@ -1,5 +1,26 @@
+export * from "./bridge-server";
 export * from "./bulb";
+export * from "./bulb-group";
+export * from "./bulb-registry";
+export * from "./capabilities";
+export * from "./circadian";
+export * from "./client";
+export * from "./color";
+export * from "./cron";
 export * from "./discover";
+export * from "./discovery-service";
+export * from "./effect";
+export * from "./fake-bulb";
+export * from "./memory-transport";
+export * from "./pilot";
+export * from "./recording-transport";
+export * from "./result";
+export * from "./scan";
+export * from "./scheduler";
+export * from "./solar";
+export * from "./transition";
+export * from "./transport";
+export * from "./type-checker";
 export * from "./constants";
 export * from "./types";
 export * from "./wikari-error";
@@ -0,0 +1,231 @@
+import { HsvColor, rgbcwToRgb, rgbToHex, rgbToHsv } from "./color";
+import {
+	ADJUSTABLE_DIMMING_SCENES,
+	ADJUSTABLE_SPEED_SCENES,
+	SCENES,
+} from "./constants";
+import {
+	GetPilotResponse,
+	Pilot,
+	pilotTemplate,
+	SyncPilotResponse,
+} from "./types";
+
+export type PilotField = keyof Pilot;
+
+export type PilotFieldChange<K extends PilotField = PilotField> = {
+	field: K;
+	previous: Pilot[K];
+	next: Pilot[K];
+};
+
+/**
+ * A change to the last known pilot of a bulb, see {@link Bulb.onChange}.
+ */
+export type PilotChange = {
+	/**
+	 * What caused the change. For `syncPilot` messages this is the `src`
+	 * reported by the bulb (e.g. "udp", "app" or "hb"), otherwise it is
+	 * "getPilot" or "setPilot".
+	 */
+	src: string;
+	// undefined when the pilot was not known before
+	previous: Pilot | undefined;
+	pilot: Pilot;
+	// every field that changed, in the order of the pilot template
+	changes: PilotFieldChange[];
+};
+
+export type SceneName = keyof typeof SCENES;
+
+/**
+ * What a bulb is showing: a scene, a color, a white temperature,
+ * or nothing at all because it is off.
+ */
+export type PilotMode = "off" | "scene" | "color" | "white";
+
+export type DecodedScene = {
+	id: number;
+	// undefined for scenes that are not in SCENES
+	name: SceneName | undefined;
+	speed: number | undefined;
+	// whether the speed and dimming of the scene can be changed
+	speedAdjustable: boolean;
+	dimmingAdjustable: boolean;
+};
+
+export type DecodedColor = {
+	r: number;
+	g: number;
+	b: number;
+	c: number;
+	w: number;
+	// the color as plain RGB, including the look of the white LEDs
+	hex: `#${string}`;
+	hsv: HsvColor;
+};
+
+/**
+ * A pilot in a readable form, see {@link decodePilot}.
+ *
+ * The scene, color and temperature describe what the bulb shows when
+ * it is on, so they are kept when the mode is "off". Only one of
+ * them is defined at a time.
+ */
+export type DecodedPilot = {
+	mode: PilotMode;
+	state: boolean;
+	dimming: number | undefined;
+	scene: DecodedScene | undefined;
+	color: DecodedColor | undefined;
+	temp: number | undefined;
+};
+
+const PILOT_FIELDS = Object.keys(pilotTemplate) as PilotField[];
+const COLOR_CHANNELS = ["r", "g", "b", "c", "w"] as const;
+const SCENE_NAMES = new Map(
+	Object.entries(SCENES).map(([name, id]) => [id as number, name as SceneName]),
+);
+
+/**
+ * Picks the pilot fields out of a response, leaving out
+ * things like the MAC address and signal strength.
+ */
+export function pickPilot(response: Record<string, unknown>): Pilot {
+	const pilot: Record<string, unknown> = {};
+	for (const field of PILOT_FIELDS)
+		if (response[field] != undefined) pilot[field] = response[field];
+
+	return pilot as Pilot;
+}
+
+/**
+ * Computes the state of a bulb after a `setPilot`, the same way the
+ * firmware does: setting a scene, a white temperature or a color
+ * replaces the other two, and changing anything other than the
+ * state turns the bulb on.
+ *
+ * @param current the state before the `setPilot`
+ * @param pilot the sent pilot
+ * @returns the new state
+ */
+export function mergePilot(current: Pilot, pilot: Pilot): Pilot {
+	const next: Pilot = { ...current };
+	const hasColor = COLOR_CHANNELS.some(k => pilot[k] != undefined);
+
+	if (pilot.sceneId != undefined) {
+		delete next.temp;
+		for (const k of COLOR_CHANNELS) delete next[k];
+		next.sceneId = pilot.sceneId;
+	} else if (pilot.temp != undefined) {
+		for (const k of COLOR_CHANNELS) delete next[k];
+		next.sceneId = 0;
+		next.temp = pilot.temp;
+	} else if (hasColor) {
+		delete next.temp;
+		for (const k of COLOR_CHANNELS) next[k] = pilot[k] ?? 0;
+		next.sceneId = 0;
+	}
+
+	if (pilot.speed != undefined) next.speed = pilot.speed;
+	if (pilot.dimming != undefined) next.dimming = pilot.dimming;
+
+	const { state, ...rest } = pilot;
+	if (state != undefined) next.state = state;
+	else if (Object.keys(rest).length) next.state = true;
+
+	return next;
+}
+
+/**
+ * @returns the fields that differ between two pilots, with
+ * their previous and next values
+ */
+export function diffPilot(
+	previous: Pilot | undefined,
+	next: Pilot,
+): PilotFieldChange[] {
+	const changes: PilotFieldChange[] = [];
+
+	for (const field of PILOT_FIELDS) {
+		const before = previous?.[field];
+		if (before !== next[field])
+			changes.push({ field, previous: before, next: next[field] });
+	}
+
+	return changes;
+}
+
+/**
+ * @returns the name of a scene in {@link SCENES}, or
+ * undefined if there is no scene with the ID
+ */
+export function getSceneName(sceneId: number) {
+	return SCENE_NAMES.get(sceneId);
+}
+
+/**
+ * Turns the raw numbers of a pilot into something readable: the mode
+ * the bulb is in, the name of the scene and whether it's speed and
+ * dimming can be changed, or the color as hex and HSV.
+ *
+ * ```ts
+ * const decoded = decodePilot(await bulb.getPilot());
+ * if (decoded.mode == "scene") console.log(decoded.scene?.name);
+ *
+ * bulb.onSync(msg => console.log(decodePilot(msg).color?.hex));
+ * ```
+ *
+ * @param source a pilot, or a `getPilot` or `syncPilot` message
+ */
+export function decodePilot(
+	source: Pilot | GetPilotResponse | SyncPilotResponse,
+): DecodedPilot {
+	const pilot =
+		"result" in source
+			? pickPilot(source.result)
+			: "params" in source
+			? pickPilot(source.params)
+			: source;
+
+	const hasColor = COLOR_CHANNELS.some(k => pilot[k] != undefined);
+	const mode: PilotMode =
+		pilot.state === false
+			? "off"
+			: pilot.sceneId
+			? "scene"
+			: pilot.temp == undefined && hasColor
+			? "color"
+			: "white";
+
+	let scene: DecodedScene | undefined;
+	let color: DecodedColor | undefined;
+	let temp: number | undefined;
+
+	if (pilot.sceneId) {
+		scene = {
+			id: pilot.sceneId,
+			name: getSceneName(pilot.sceneId),
+			speed: pilot.speed,
+			speedAdjustable: (ADJUSTABLE_SPEED_SCENES as readonly number[]).includes(
+				pilot.sceneId,
+			),
+			dimmingAdjustable: (
+				ADJUSTABLE_DIMMING_SCENES as readonly number[]
+			).includes(pilot.sceneId),
+		};
+	} else if (pilot.temp == undefined && hasColor) {
+		const { r = 0, g = 0, b = 0, c = 0, w = 0 } = pilot;
+		const rgb = rgbcwToRgb({ r, g, b, c, w });
+		color = { r, g, b, c, w, hex: rgbToHex(rgb), hsv: rgbToHsv(rgb) };
+	} else temp = pilot.temp;
+
+	return {
+		mode,
+		state: pilot.state ?? true,
+		dimming: pilot.dimming,
+		scene,
+		color,
+		temp,
+	};
+}
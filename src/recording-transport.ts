@@ -0,0 +1,299 @@
+import EventEmitter from "events";
+import fs from "fs/promises";
+import { Transport, TransportEvents, TransportPeer } from "./transport";
+
+/**
+ * A packet captured by a {@link RecordingTransport}.
+ */
+export type TransportRecord = {
+	// whether the packet was received or sent
+	direction: "in" | "out";
+	// the other end of the packet
+	peer: TransportPeer;
+	// when the packet was received or sent, in milliseconds since the epoch
+	timestamp: number;
+	// the packet, parsed if it's valid JSON
+	message: unknown;
+};
+
+const parseMessage = (data: string): unknown => {
+	try {
+		return JSON.parse(data);
+	} catch {
+		return data;
+	}
+};
+
+const serializeMessage = (message: unknown) =>
+	typeof message == "string" ? message : JSON.stringify(message);
+
+const asObject = (message: unknown) =>
+	typeof message == "object" && message != null
+		? (message as Record<string, unknown>)
+		: undefined;
+
+// identifies a request and it's response, since
+// bulbs send their own IDs in syncPilot messages
+const requestKey = (message: unknown) => {
+	const object = asObject(message);
+	return typeof object?.id == "number"
+		? `${object.method}:${object.id}`
+		: undefined;
+};
+
+// what is compared when replaying, leaving out the parts that change
+// between runs: the ID, and the address and random MAC of the client that
+// bulbs are registered with and that syncPilot messages are acknowledged with
+const comparable = (message: unknown) => {
+	const object = asObject(message);
+	if (!object) return message;
+
+	const { id, ...rest } = object;
+	const params = asObject(rest.params);
+	if (params) {
+		const { phoneIp, phoneMac, ...other } = params;
+		rest.params = other;
+	}
+
+	const result = asObject(rest.result);
+	if (result && rest.method == "syncPilot") {
+		const { mac, ...other } = result;
+		rest.result = other;
+	}
+
+	return rest;
+};
+
+/**
+ * Parses a recording written by a {@link RecordingTransport}, which has
+ * one {@link TransportRecord} as JSON per line.
+ */
+export function parseRecording(contents: string): TransportRecord[] {
+	return contents
+		.split("\n")
+		.filter(line => line.trim())
+		.map(line => JSON.parse(line));
+}
+
+export declare interface RecordingTransport {
+	on<E extends keyof TransportEvents>(
+		event: E,
+		listener: TransportEvents[E],
+	): this;
+	off<E extends keyof TransportEvents>(
+		event: E,
+		listener: TransportEvents[E],
+	): this;
+	emit<E extends keyof TransportEvents>(
+		event: E,
+		...args: Parameters<TransportEvents[E]>
+	): boolean;
+}
+
+/**
+ * Wraps another {@link Transport}, and appends every packet that goes
+ * through it to a file, as one {@link TransportRecord} in JSON per line.
+ * The recording can be played back with {@link ReplayTransport}.
+ *
+ * @example
+ * ```ts
+ * const transport = new RecordingTransport(new UdpTransport(), "session.jsonl");
+ * const client = new WikariClient({ transport });
+ * ```
+ */
+export class RecordingTransport extends EventEmitter implements Transport {
+	readonly inner: Transport;
+	readonly path: string;
+
+	private writing: Promise<void> = Promise.resolve();
+
+	/**
+	 * @param inner the transport that actually sends and receives the packets
+	 * @param path the file to append the records to
+	 */
+	constructor(inner: Transport, path: string) {
+		super();
+		this.inner = inner;
+		this.path = path;
+
+		this.inner.on("message", (data, peer) => {
+			this.record("in", peer, data.toString());
+			this.emit("message", data, peer);
+		});
+		this.inner.on("error", error => {
+			// emitting "error" without a listener would throw
+			if (this.listenerCount("error")) this.emit("error", error);
+		});
+	}
+
+	bind(port: number, address?: string) {
+		return this.inner.bind(port, address);
+	}
+
+	async close() {
+		await this.inner.close();
+		await this.flush();
+	}
+
+	async send(data: string, port: number, address: string) {
+		await this.inner.send(data, port, address);
+		this.record("out", { address, port }, data);
+	}
+
+	setBroadcast(flag: boolean) {
+		this.inner.setBroadcast(flag);
+	}
+
+	address() {
+		return this.inner.address();
+	}
+
+	/**
+	 * @returns a promise that resolves once every record so far
+	 * has been written to the file
+	 */
+	flush() {
+		return this.writing;
+	}
+
+	private record(direction: "in" | "out", peer: TransportPeer, data: string) {
+		const record: TransportRecord = {
+			direction,
+			peer,
+			timestamp: Date.now(),
+			message: parseMessage(data),
+		};
+
+		// records are written one after another, so they stay in order
+		const line = JSON.stringify(record) + "\n";
+		this.writing = this.writing
+			.then(() => fs.appendFile(this.path, line))
+			.catch(error => {
+				if (this.listenerCount("error")) this.emit("error", error);
+			});
+	}
+}
+
+export declare interface ReplayTransport {
+	on<E extends keyof TransportEvents>(
+		event: E,
+		listener: TransportEvents[E],
+	): this;
+	off<E extends keyof TransportEvents>(
+		event: E,
+		listener: TransportEvents[E],
+	): this;
+	emit<E extends keyof TransportEvents>(
+		event: E,
+		...args: Parameters<TransportEvents[E]>
+	): boolean;
+}
+
+/**
+ * Plays back a recording made with {@link RecordingTransport}, without
+ * touching the network.
+ *
+ * Every packet that is sent must match the next sent packet of the
+ * recording, otherwise sending fails. It's `id` is not compared, and neither
+ * are the `phoneIp` and `phoneMac` of registrations or the `mac` of
+ * syncPilot acknowledgements, which differ from run to run. After each
+ * sent packet, the received packets that follow it in the recording are
+ * delivered, in order and without the recorded delays, so that a replay
+ * always behaves the same. Request IDs in them are changed to the IDs of
+ * the packets that were actually sent.
+ *
+ * @example
+ * ```ts
+ * const transport = await ReplayTransport.load("session.jsonl");
+ * const client = new WikariClient({ transport });
+ * ```
+ */
+export class ReplayTransport extends EventEmitter implements Transport {
+	private readonly records: TransportRecord[];
+	private position = 0;
+	private bound: TransportPeer | undefined;
+	// recorded request IDs, mapped to the ones that were actually sent
+	private readonly ids = new Map<string, unknown>();
+
+	constructor(records: TransportRecord[]) {
+		super();
+		this.records = records;
+	}
+
+	/**
+	 * @param path a file written by a {@link RecordingTransport}
+	 */
+	static async load(path: string) {
+		return new ReplayTransport(
+			parseRecording(await fs.readFile(path, "utf-8")),
+		);
+	}
+
+	/**
+	 * The records that have not been played back yet.
+	 */
+	get remaining() {
+		return this.records.slice(this.position);
+	}
+
+	async bind(port: number, address = "0.0.0.0") {
+		this.bound = { address, port };
+		// packets received before anything was sent
+		this.deliverReceived();
+	}
+
+	async close() {
+		this.bound = undefined;
+	}
+
+	async send(data: string, port: number, address: string) {
+		const expected = this.records[this.position];
+		const message = parseMessage(data);
+
+		if (
+			!expected ||
+			expected.direction != "out" ||
+			expected.peer.address != address ||
+			expected.peer.port != port ||
+			serializeMessage(comparable(expected.message)) !=
+				serializeMessage(comparable(message))
+		)
+			throw new Error(
+				`Sent packet does not match the recording: expected ${
+					expected ? serializeMessage(expected.message) : "nothing"
+				}, got ${data}`,
+			);
+
+		const recordedKey = requestKey(expected.message);
+		if (recordedKey) this.ids.set(recordedKey, asObject(message)?.id);
+
+		this.position++;
+		this.deliverReceived();
+	}
+
+	setBroadcast() {}
+
+	address(): TransportPeer {
+		return this.bound ?? { address: "0.0.0.0", port: 0 };
+	}
+
+	private deliverReceived() {
+		const received: TransportRecord[] = [];
+		while (this.records[this.position]?.direction == "in")
+			received.push(this.records[this.position++]);
+
+		setImmediate(() => {
+			for (const { message, peer } of received) {
+				if (!this.bound) return;
+
+				const key = requestKey(message);
+				const mapped =
+					key && this.ids.has(key)
+						? { ...asObject(message), id: this.ids.get(key) }
+						: message;
+
+				this.emit("message", Buffer.from(serializeMessage(mapped)), peer);
+			}
+		});
+	}
+}
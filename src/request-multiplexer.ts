@@ -0,0 +1,190 @@
+import { GenericResponse, Message } from "./types";
+import { WikariError, WikariErrorCode } from "./wikari-error";
+import { WikariState } from "./bulb";
+import { Transport, TransportPeer } from "./transport";
+
+type PendingRequest = {
+	address: string;
+	port: number;
+	id: number;
+	method: string;
+	timer: ReturnType<typeof setTimeout>;
+	resolve: (response: GenericResponse) => void;
+	reject: (error: WikariError) => void;
+};
+
+/**
+ * Multiplexes requests over a single {@link Transport}.
+ *
+ * Every outgoing message is tagged with an `id` (unless it already has one),
+ * and incoming messages are matched back to the request they answer using
+ * the sender address and port, the `id` and the `method`. This allows any
+ * number of requests to be in flight at once, both to the same bulb and
+ * across bulbs, each with it's own timeout.
+ *
+ * Some firmware versions do not echo the `id` back, in which case the oldest
+ * pending request to the same bulb with the same method is resolved.
+ */
+export class RequestMultiplexer {
+	private readonly transport: Transport;
+	private readonly pending: PendingRequest[] = [];
+	private lastId = 0;
+
+	constructor(transport: Transport) {
+		this.transport = transport;
+		this.transport.on("message", this.messageListener);
+	}
+
+	/**
+	 * @returns the number of requests still waiting for a response
+	 */
+	get inFlight() {
+		return this.pending.length;
+	}
+
+	/**
+	 * @returns a request ID that is not used by any in-flight request
+	 */
+	nextId() {
+		do {
+			this.lastId = (this.lastId % 1_000_000) + 1;
+		} while (this.pending.some(p => p.id == this.lastId));
+
+		return this.lastId;
+	}
+
+	/**
+	 * Sends a message and resolves with the matching response.
+	 *
+	 * @param message the message to send, an `id` is added if it has none
+	 * @param address the address of the bulb
+	 * @param port the port the bulb listens on
+	 * @param timeoutMs how long to wait for the response before rejecting
+	 * with {@link WikariErrorCode.RequestTimedOut}
+	 */
+	request(
+		message: Message,
+		address: string,
+		port: number,
+		timeoutMs: number,
+	): Promise<GenericResponse> {
+		const id = typeof message.id == "number" ? message.id : this.nextId();
+		const tagged = { ...message, id };
+
+		return new Promise((resolve, reject) => {
+			const request: PendingRequest = {
+				address,
+				port,
+				id,
+				method: message.method,
+				resolve,
+				reject,
+				// if the request takes longer than the timeout wait,
+				// we can assume the packet has been lost
+				timer: setTimeout(() => {
+					this.remove(request);
+					reject(
+						new WikariError(
+							WikariErrorCode.RequestTimedOut,
+							{ responseWaitMs: timeoutMs },
+							"Timed out",
+						),
+					);
+				}, timeoutMs),
+			};
+			this.pending.push(request);
+
+			this.transport
+				.send(JSON.stringify(tagged), port, address)
+				.catch((error: Error) => {
+					if (!this.remove(request)) return;
+					clearTimeout(request.timer);
+					reject(
+						new WikariError(
+							WikariErrorCode.RequestSendError,
+							{ error },
+							"Failed to send request to bulb",
+						),
+					);
+				});
+		});
+	}
+
+	/**
+	 * Rejects every in-flight request and stops listening on the transport.
+	 */
+	close() {
+		this.transport.off("message", this.messageListener);
+
+		for (const request of this.pending.splice(0)) {
+			clearTimeout(request.timer);
+			request.reject(
+				new WikariError(
+					WikariErrorCode.InvalidBulbState,
+					{
+						state: WikariState.CLOSED,
+						expectedState: [WikariState.READY],
+					},
+					"The connection was closed before a response was received",
+				),
+			);
+		}
+	}
+
+	private remove(request: PendingRequest) {
+		const index = this.pending.indexOf(request);
+		if (index == -1) return false;
+
+		this.pending.splice(index, 1);
+		return true;
+	}
+
+	private readonly messageListener = (msg: Buffer, rinfo: TransportPeer) => {
+		let response: any;
+		try {
+			response = JSON.parse(msg.toString());
+		} catch (error) {
+			// we can't know which request this was meant for,
+			// so we fail the oldest one sent to this bulb
+			const request = this.pending.find(
+				p => p.address == rinfo.address && p.port == rinfo.port,
+			);
+			if (!request) return;
+
+			this.remove(request);
+			clearTimeout(request.timer);
+			request.reject(
+				new WikariError(
+					WikariErrorCode.ResponseParseFailed,
+					{ response: msg.toString(), error: error as Error },
+					"Failed to parse response JSON",
+				),
+			);
+			return;
+		}
+
+		if (typeof response != "object" || response == null) return;
+
+		const request = this.pending.find(
+			p =>
+				p.address == rinfo.address &&
+				p.port == rinfo.port &&
+				(!("method" in response) || response.method == p.method) &&
+				(typeof response.id != "number" || response.id == p.id),
+		);
+		if (!request) return;
+
+		this.remove(request);
+		clearTimeout(request.timer);
+
+		if ("error" in response) {
+			request.reject(
+				new WikariError(
+					WikariErrorCode.BulbReturnedFailure,
+					{ response },
+					"Bulb returned failure",
+				),
+			);
+		} else request.resolve(response);
+	};
+}
@@ -0,0 +1,84 @@
+import { WikariError } from "./wikari-error";
+
+/**
+ * How the methods of a {@link WikariClient} and it's bulbs report errors.
+ *
+ * * throw: they reject with a {@link WikariError}
+ * * result: they always resolve, with a {@link Result}
+ *
+ * The mode only covers the methods of clients and bulbs. Helpers built on
+ * top of them, such as {@link BulbRegistry}, {@link Scheduler},
+ * {@link CircadianController} and {@link BridgeServer}, throw or emit
+ * "error" events in both modes.
+ */
+export type ErrorMode = "throw" | "result";
+
+/**
+ * Either the value of a successful operation, or the error it failed with.
+ *
+ * ```ts
+ * const result = await bulb.brightness(50);
+ * if (result.ok) console.log(result.value);
+ * else console.log(result.error.message);
+ * ```
+ */
+export type Result<T, E = WikariError> =
+	| { ok: true; value: T }
+	| { ok: false; error: E };
+
+/**
+ * What a method that resolves with T resolves with in the error mode M.
+ */
+export type Outcome<M extends ErrorMode, T> = M extends "result"
+	? Result<T>
+	: T;
+
+/**
+ * @returns a result with the value of the promise, or the {@link WikariError}
+ * it rejected with. Any other error is not expected, and rethrown.
+ */
+export async function settle<T>(promise: Promise<T>): Promise<Result<T>> {
+	try {
+		return { ok: true, value: await promise };
+	} catch (error) {
+		if (error instanceof WikariError) return { ok: false, error };
+		throw error;
+	}
+}
+
+/**
+ * @returns the promise as it should be returned in the error mode,
+ * settled if the mode is "result"
+ */
+export function toOutcome<M extends ErrorMode, T>(
+	mode: M,
+	promise: Promise<T>,
+): Promise<Outcome<M, T>> {
+	return (mode == "result" ? settle(promise) : promise) as Promise<
+		Outcome<M, T>
+	>;
+}
+
+/**
+ * @returns the value of a successful result
+ * @throws the error of a failed result
+ */
+export function unwrap<T>(result: Result<T>): T {
+	if (result.ok) return result.value;
+	throw result.error;
+}
+
+/**
+ * Like {@link unwrap}, for code that works with clients of either mode.
+ *
+ * @param mode the error mode the outcome was made in
+ * @param outcome what a method resolved with
+ * @returns the value of the outcome
+ * @throws the error of a failed result
+ */
+export function unwrapOutcome<M extends ErrorMode, T>(
+	mode: M,
+	outcome: Outcome<M, T>,
+): T {
+	return mode == "result" ? unwrap(outcome as Result<T>) : (outcome as T);
+}
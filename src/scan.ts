@@ -0,0 +1,189 @@
+import { Bulb, ClientOption } from "./bulb";
+import {
+	DEFAULT_DISCOVER_WAIT_MS,
+	DEFAULT_SCAN_CONCURRENCY,
+	DEFAULT_SCAN_RATE,
+	WIZ_BULB_LISTEN_PORT,
+} from "./constants";
+import { ErrorMode } from "./result";
+import { ProbeResult } from "./discover";
+import { Transport, TransportPeer, UdpTransport } from "./transport";
+import { checkType } from "./type-checker";
+import { GetPilotMsg, getPilotResponseTemplate } from "./types";
+import { intToIp, parseCidr, sleep } from "./utils";
+import { WikariError, WikariErrorCode } from "./wikari-error";
+
+export type ScanProgress = {
+	// hosts that have either responded or timed out
+	scanned: number;
+	total: number;
+	// bulbs found so far
+	found: number;
+};
+
+export type ScanOptions<M extends ErrorMode = "throw"> = {
+	cidr: string;
+	port?: number;
+	waitMs?: number;
+	concurrency?: number;
+	rate?: number;
+	onProgress?: (progress: ScanProgress) => void;
+	// what to send the requests over, a new UdpTransport if not provided
+	transport?: Transport;
+	// the client the found bulbs use
+} & ClientOption<M>;
+
+/**
+ * Sends a unicast discovery request to every host in a CIDR range and
+ * collects the responses, keyed by the MAC address of the bulb that sent
+ * them. This is what {@link scan} uses under the hood.
+ *
+ * @returns the bulbs that responded, keyed by MAC address
+ */
+export async function scanProbe({
+	cidr,
+	port = WIZ_BULB_LISTEN_PORT,
+	waitMs = DEFAULT_DISCOVER_WAIT_MS,
+	concurrency = DEFAULT_SCAN_CONCURRENCY,
+	rate = DEFAULT_SCAN_RATE,
+	onProgress,
+	transport = new UdpTransport(),
+}: Omit<ScanOptions, "client">): Promise<Map<string, ProbeResult>> {
+	const range = parseCidr(cidr);
+	if (range instanceof Error)
+		throw new WikariError(
+			WikariErrorCode.InvalidArgument,
+			{ argument: "cidr", provided: cidr },
+			`'${cidr}' is not a valid CIDR range`,
+		);
+
+	// a rate of 0 would space the requests infinitely far apart
+	for (const [argument, value] of Object.entries({ concurrency, rate }))
+		if (!(value > 0))
+			throw new WikariError(
+				WikariErrorCode.InvalidArgument,
+				{ argument, provided: value },
+				`'${argument}' must be greater than 0`,
+			);
+
+	await transport.bind(0);
+
+	const results = new Map<string, ProbeResult>();
+	const pending = new Map<string, () => void>();
+	const message = JSON.stringify({
+		method: "getPilot",
+		params: {},
+	} as GetPilotMsg);
+
+	const listener = (msg: Buffer, rinfo: TransportPeer) => {
+		const done = pending.get(rinfo.address);
+		if (!done) return;
+
+		try {
+			const response = JSON.parse(msg.toString());
+			if (!checkType(getPilotResponseTemplate, response)) return;
+
+			if (!results.has(response.result.mac))
+				results.set(response.result.mac, {
+					mac: response.result.mac,
+					address: rinfo.address,
+					response,
+				});
+			done();
+		} catch {}
+	};
+	transport.on("message", listener);
+
+	const total = range.last - range.first + 1;
+	let scanned = 0;
+	let inFlight = 0;
+	let release: (() => void) | undefined;
+	// what onProgress threw, which stops the scan
+	let failure: { error: unknown } | undefined;
+
+	// resolves once the host has responded or timed out
+	const probeHost = (address: string) =>
+		new Promise<void>(resolve => {
+			const done = () => {
+				clearTimeout(timer);
+				pending.delete(address);
+				resolve();
+			};
+			const timer = setTimeout(done, waitMs);
+			pending.set(address, done);
+
+			transport.send(message, port, address).catch(() => done());
+		}).then(() => {
+			inFlight--;
+			scanned++;
+			try {
+				onProgress?.({ scanned, total, found: results.size });
+			} catch (error) {
+				failure ??= { error };
+			}
+			release?.();
+		});
+
+	const probes: Promise<void>[] = [];
+	const interval = 1000 / rate;
+	let nextSendAt = Date.now();
+
+	try {
+		for (let ip = range.first; ip <= range.last && !failure; ip++) {
+			while (inFlight >= concurrency)
+				await new Promise<void>(resolve => (release = resolve));
+			release = undefined;
+			if (failure) break;
+
+			const delay = nextSendAt - Date.now();
+			if (delay > 0) await sleep(delay);
+			nextSendAt = Math.max(nextSendAt, Date.now()) + interval;
+
+			inFlight++;
+			probes.push(probeHost(intToIp(ip)));
+		}
+
+		await Promise.all(probes);
+	} finally {
+		transport.off("message", listener);
+		await transport.close();
+	}
+
+	if (failure) throw failure.error;
+	return results;
+}
+
+/**
+ * Discovers bulbs on networks that drop broadcast traffic, by sending a
+ * unicast request to every host in a CIDR range.
+ *
+ * The first argument contains options for the scan, them being:
+ * * cidr: the range to scan, e.g. `10.0.4.0/22`
+ * * port: the port that the bulbs listen on
+ * * waitMs: how long to wait for a response from each host
+ * * concurrency: how many hosts may be waited on at once
+ * * rate: how many requests may be sent per second
+ * * onProgress: called whenever a host has responded or timed out, an
+ *   error it throws stops the scan and is rethrown
+ * * client: the client the found bulbs use
+ * * transport: what to send the requests over
+ *
+ * ```ts
+ * const bulbs = await scan({
+ *   cidr: "10.0.4.0/22",
+ *   onProgress: ({ scanned, total }) => console.log(`${scanned}/${total}`),
+ * });
+ * ```
+ *
+ * @returns an array of {@link Bulb} instances corresponding to discovered bulbs
+ */
+export async function scan<M extends ErrorMode = "throw">(
+	options: ScanOptions<M>,
+): Promise<Bulb<M>[]> {
+	const port = options.port ?? WIZ_BULB_LISTEN_PORT;
+	const results = await scanProbe(options);
+
+	return [...results.values()].map(
+		({ address }) => new Bulb<M>(address, { ...options, port }),
+	);
+}
@@ -0,0 +1,347 @@
+import EventEmitter from "events";
+import fs from "fs/promises";
+import { CronSchedule, nextCronOccurrence, parseCron } from "./cron";
+import { nextSolarOccurrence, SolarEvent } from "./solar";
+import { getZonedTime } from "./utils";
+import { WikariError, WikariErrorCode } from "./wikari-error";
+
+export type ScheduleTrigger =
+	| {
+			cron: string;
+			// IANA time zone, defaults to the one of the scheduler
+			timeZone?: string;
+	  }
+	| {
+			solar: SolarEvent;
+			// shifts the event, e.g. -30 minutes for half an hour before it
+			offsetMs?: number;
+	  };
+
+/**
+ * What to do with runs that were missed while the scheduler was not
+ * running, e.g. because the process was restarted.
+ *
+ * * skip: forget about them
+ * * latest: run the action once, for the most recent missed run
+ * * all: run the action for every missed run, oldest first
+ */
+export type CatchUpRule = "skip" | "latest" | "all";
+
+export type ScheduleContext = {
+	id: string;
+	// when the run was supposed to happen
+	scheduledAt: Date;
+	// whether this is a run that was missed and is being caught up on
+	missed: boolean;
+};
+
+export type ScheduleEntry = {
+	id: string;
+	trigger: ScheduleTrigger;
+	action: (context: ScheduleContext) => unknown;
+	catchUp?: CatchUpRule;
+};
+
+export type SchedulerEvents = {
+	run: (context: ScheduleContext) => void;
+	error: (error: unknown, context?: ScheduleContext) => void;
+};
+
+export declare interface Scheduler {
+	on<E extends keyof SchedulerEvents>(
+		event: E,
+		listener: SchedulerEvents[E],
+	): this;
+	once<E extends keyof SchedulerEvents>(
+		event: E,
+		listener: SchedulerEvents[E],
+	): this;
+	off<E extends keyof SchedulerEvents>(
+		event: E,
+		listener: SchedulerEvents[E],
+	): this;
+	emit<E extends keyof SchedulerEvents>(
+		event: E,
+		...args: Parameters<SchedulerEvents[E]>
+	): boolean;
+}
+
+type Job = ScheduleEntry & {
+	cron?: CronSchedule;
+	timer?: ReturnType<typeof setTimeout>;
+	next?: Date;
+};
+
+// setTimeout cannot wait longer than this
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+// upper limit of runs caught up on with the "all" rule
+const MAX_CATCH_UP_RUNS = 100;
+// the first window missed runs are searched for in, doubled until enough are found
+const CATCH_UP_WINDOW_MS = 60 * 60_000;
+
+/**
+ * Runs actions on cron expressions or at solar events such as sunrise and
+ * sunset, which are computed locally from a latitude and longitude.
+ *
+ * If a `statePath` is given, the time of the last run of every entry is
+ * stored there, so that runs missed while the process was not running can
+ * be caught up on according to the {@link CatchUpRule} of the entry.
+ *
+ * @example
+ * ```ts
+ * const scheduler = new Scheduler({
+ *   latitude: 52.52,
+ *   longitude: 13.405,
+ *   timeZone: "Europe/Berlin",
+ *   statePath: "schedule.json",
+ * });
+ *
+ * scheduler.add({
+ *   id: "evening",
+ *   trigger: { solar: "sunset", offsetMs: -30 * 60_000 },
+ *   action: () => bulb.scene(SCENES["Cozy"]),
+ *   catchUp: "latest",
+ * });
+ *
+ * scheduler.add({
+ *   id: "lights-out",
+ *   trigger: { cron: "30 23 * * *" },
+ *   action: () => room.turn(false),
+ * });
+ *
+ * await scheduler.start();
+ * ```
+ */
+export class Scheduler extends EventEmitter {
+	readonly latitude: number | undefined;
+	readonly longitude: number | undefined;
+	readonly timeZone: string | undefined;
+	readonly statePath: string | undefined;
+
+	private readonly jobs = new Map<string, Job>();
+	private lastRuns: Record<string, string> = {};
+	private running = false;
+
+	/**
+	 * @param options
+	 * * latitude, longitude: the location used for solar events
+	 * * timeZone: the default IANA time zone for cron expressions
+	 * * statePath: the file to store the last run times in
+	 */
+	constructor(
+		options: {
+			latitude?: number;
+			longitude?: number;
+			timeZone?: string;
+			statePath?: string;
+		} = {},
+	) {
+		super();
+		this.latitude = options.latitude;
+		this.longitude = options.longitude;
+		this.timeZone = options.timeZone;
+		this.statePath = options.statePath;
+
+		if (this.timeZone) this.checkTimeZone(this.timeZone);
+	}
+
+	/**
+	 * Adds an entry to the schedule, replacing the one with the same ID.
+	 * @throws a {@link WikariError} if the trigger is not valid
+	 */
+	add(entry: ScheduleEntry) {
+		const job: Job = { ...entry };
+
+		if ("cron" in entry.trigger) {
+			job.cron = parseCron(entry.trigger.cron);
+			if (entry.trigger.timeZone) this.checkTimeZone(entry.trigger.timeZone);
+		} else if (this.latitude == undefined || this.longitude == undefined)
+			throw new WikariError(
+				WikariErrorCode.InvalidArgument,
+				{ argument: "trigger", provided: entry.trigger },
+				"Solar events need the scheduler to have a latitude and longitude",
+			);
+
+		this.remove(entry.id);
+		this.jobs.set(entry.id, job);
+		if (this.running) this.arm(job);
+
+		return this;
+	}
+
+	/**
+	 * Removes an entry from the schedule.
+	 * @returns false if there was no entry with the given ID
+	 */
+	remove(id: string) {
+		const job = this.jobs.get(id);
+		if (!job) return false;
+
+		clearTimeout(job.timer);
+		this.jobs.delete(id);
+		return true;
+	}
+
+	/**
+	 * @returns the next time the entry with the given ID runs
+	 */
+	next(id: string): Date | undefined {
+		const job = this.jobs.get(id);
+		return job && (job.next ?? this.nextOccurrence(job, new Date()));
+	}
+
+	/**
+	 * Loads the last run times from the state file, catches up on missed
+	 * runs and starts waiting for the next ones.
+	 */
+	async start() {
+		if (this.running) return;
+		this.running = true;
+
+		await this.loadState();
+
+		const now = new Date();
+		for (const job of this.jobs.values()) {
+			await this.catchUp(job, now);
+			if (this.running) this.arm(job);
+		}
+	}
+
+	/**
+	 * Stops running actions. The last run times are kept in the state file.
+	 */
+	stop() {
+		this.running = false;
+		for (const job of this.jobs.values()) {
+			clearTimeout(job.timer);
+			job.timer = undefined;
+			job.next = undefined;
+		}
+	}
+
+	private checkTimeZone(timeZone: string) {
+		try {
+			getZonedTime(Date.now(), timeZone);
+		} catch {
+			throw new WikariError(
+				WikariErrorCode.InvalidArgument,
+				{ argument: "timeZone", provided: timeZone },
+				`'${timeZone}' is not a valid time zone`,
+			);
+		}
+	}
+
+	private nextOccurrence(job: Job, after: Date) {
+		const { trigger } = job;
+
+		if ("cron" in trigger)
+			return nextCronOccurrence(
+				job.cron as CronSchedule,
+				after,
+				trigger.timeZone ?? this.timeZone,
+			);
+
+		return nextSolarOccurrence(
+			trigger.solar,
+			after,
+			this.latitude as number,
+			this.longitude as number,
+			trigger.offsetMs,
+		);
+	}
+
+	private arm(job: Job) {
+		clearTimeout(job.timer);
+
+		const next = this.nextOccurrence(job, new Date());
+		job.next = next;
+		if (!next) return;
+
+		// long waits are split up, since timers cannot wait very long and the
+		// clock may change in the meantime
+		const wait = Math.min(next.getTime() - Date.now(), MAX_TIMEOUT_MS);
+		job.timer = setTimeout(async () => {
+			if (Date.now() < next.getTime()) return this.arm(job);
+
+			await this.run(job, { id: job.id, scheduledAt: next, missed: false });
+			if (this.running && this.jobs.get(job.id) == job) this.arm(job);
+		}, Math.max(wait, 0));
+	}
+
+	private async catchUp(job: Job, now: Date) {
+		const rule = job.catchUp ?? "skip";
+		const lastRun = this.lastRuns[job.id];
+		if (rule == "skip" || !lastRun) return;
+
+		const since = new Date(lastRun);
+		if (Number.isNaN(since.getTime())) return;
+
+		const limit = rule == "latest" ? 1 : MAX_CATCH_UP_RUNS;
+		const toRun = this.missedOccurrences(job, since, now, limit);
+		for (const scheduledAt of toRun) {
+			if (!this.running) return;
+			await this.run(job, { id: job.id, scheduledAt, missed: true });
+		}
+	}
+
+	/**
+	 * @returns the most recent occurrences between `since` and `now`, at most
+	 * `limit` of them, oldest first
+	 */
+	private missedOccurrences(job: Job, since: Date, now: Date, limit: number) {
+		// searched for backwards from now in growing windows, so that an entry
+		// that has not run for a long time does not step through every
+		// occurrence since then
+		for (let windowMs = CATCH_UP_WINDOW_MS; ; windowMs *= 2) {
+			const from = Math.max(since.getTime(), now.getTime() - windowMs);
+
+			const missed: Date[] = [];
+			let next = this.nextOccurrence(job, new Date(from));
+			while (next && next < now) {
+				missed.push(next);
+				if (missed.length > limit) missed.shift();
+				next = this.nextOccurrence(job, next);
+			}
+
+			if (missed.length == limit || from == since.getTime()) return missed;
+		}
+	}
+
+	private async run(job: Job, context: ScheduleContext) {
+		try {
+			await job.action(context);
+			this.emit("run", context);
+		} catch (error) {
+			// emitting "error" without a listener would throw
+			if (this.listenerCount("error")) this.emit("error", error, context);
+		}
+
+		this.lastRuns[job.id] = context.scheduledAt.toISOString();
+		await this.saveState();
+	}
+
+	private async loadState() {
+		if (!this.statePath) return;
+
+		try {
+			const state = JSON.parse(await fs.readFile(this.statePath, "utf-8"));
+			if (typeof state == "object" && state != null) this.lastRuns = state;
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code == "ENOENT") return;
+			if (this.listenerCount("error")) this.emit("error", error);
+		}
+	}
+
+	private async saveState() {
+		if (!this.statePath) return;
+
+		try {
+			await fs.writeFile(
+				this.statePath,
+				JSON.stringify(this.lastRuns, null, "\t") + "\n",
+			);
+		} catch (error) {
+			if (this.listenerCount("error")) this.emit("error", error);
+		}
+	}
+}
@@ -0,0 +1,121 @@
+// sun position formulas based on the ones from
+// https://aa.quae.nl/en/reken/zonpositie.html,
+// precise to about a minute, which is plenty for lights
+
+export type SolarEvent = "dawn" | "sunrise" | "solarNoon" | "sunset" | "dusk";
+
+/**
+ * The times of the solar events on a day. An event is undefined if it
+ * does not happen on that day, e.g. the sun not setting near the poles
+ * in summer.
+ */
+export type SolarTimes = Record<SolarEvent, Date | undefined>;
+
+const RAD = Math.PI / 180;
+const DAY_MS = 86_400_000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+// obliquity of the earth
+const E = RAD * 23.4397;
+const J0 = 0.0009;
+
+// sun altitudes for the events, in degrees
+const SUNRISE_ALTITUDE = -0.833;
+const CIVIL_TWILIGHT_ALTITUDE = -6;
+
+const toDays = (date: Date) => date.getTime() / DAY_MS - 0.5 + J1970 - J2000;
+const fromJulian = (j: number) => new Date((j + 0.5 - J1970) * DAY_MS);
+
+const solarMeanAnomaly = (d: number) => RAD * (357.5291 + 0.98560028 * d);
+
+const eclipticLongitude = (m: number) => {
+	// equation of center
+	const c =
+		RAD *
+		(1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m));
+	// perihelion of the earth
+	const p = RAD * 102.9372;
+
+	return m + c + p + Math.PI;
+};
+
+const declination = (l: number) => Math.asin(Math.sin(E) * Math.sin(l));
+
+const approxTransit = (ht: number, lw: number, n: number) =>
+	J0 + (ht + lw) / (2 * Math.PI) + n;
+
+const solarTransitJ = (ds: number, m: number, l: number) =>
+	J2000 + ds + 0.0053 * Math.sin(m) - 0.0069 * Math.sin(2 * l);
+
+/**
+ * Computes the times of sunrise, sunset and civil twilight on the day
+ * containing the given instant, without any network access.
+ *
+ * @param date any instant on the day
+ * @param latitude latitude in degrees, north is positive
+ * @param longitude longitude in degrees, east is positive
+ */
+export function getSolarTimes(
+	date: Date,
+	latitude: number,
+	longitude: number,
+): SolarTimes {
+	const lw = RAD * -longitude;
+	const phi = RAD * latitude;
+
+	const d = toDays(date);
+	const n = Math.round(d - J0 - lw / (2 * Math.PI));
+	const ds = approxTransit(0, lw, n);
+
+	const m = solarMeanAnomaly(ds);
+	const l = eclipticLongitude(m);
+	const dec = declination(l);
+	const noon = solarTransitJ(ds, m, l);
+
+	// returns the rise and set times for the sun being at the given altitude
+	const riseAndSet = (altitude: number) => {
+		const cosH =
+			(Math.sin(altitude * RAD) - Math.sin(phi) * Math.sin(dec)) /
+			(Math.cos(phi) * Math.cos(dec));
+		if (cosH < -1 || cosH > 1) return [undefined, undefined];
+
+		const set = solarTransitJ(approxTransit(Math.acos(cosH), lw, n), m, l);
+		return [fromJulian(noon - (set - noon)), fromJulian(set)];
+	};
+
+	const [sunrise, sunset] = riseAndSet(SUNRISE_ALTITUDE);
+	const [dawn, dusk] = riseAndSet(CIVIL_TWILIGHT_ALTITUDE);
+
+	return { dawn, sunrise, solarNoon: fromJulian(noon), sunset, dusk };
+}
+
+/**
+ * Finds the next time a solar event happens.
+ *
+ * @param event the event to look for
+ * @param after the occurrence, including the offset, must be after this
+ * @param latitude latitude in degrees, north is positive
+ * @param longitude longitude in degrees, east is positive
+ * @param offsetMs shifts the event, e.g. -30 minutes for half an hour
+ * before sunset
+ * @returns the next occurrence with the offset applied, or undefined if
+ * the event does not happen in the next year
+ */
+export function nextSolarOccurrence(
+	event: SolarEvent,
+	after: Date,
+	latitude: number,
+	longitude: number,
+	offsetMs = 0,
+): Date | undefined {
+	// start a day early, since the offset may move
+	// yesterday's event past the given instant
+	for (let day = -1; day <= 366; day++) {
+		const date = new Date(after.getTime() + day * DAY_MS);
+		const time = getSolarTimes(date, latitude, longitude)[event];
+		if (time && time.getTime() + offsetMs > after.getTime())
+			return new Date(time.getTime() + offsetMs);
+	}
+
+	return undefined;
+}
@@ -0,0 +1,164 @@
+import { Bulb } from "./bulb";
+import { DEFAULT_TRANSITION_FPS } from "./constants";
+import { ErrorMode, unwrapOutcome } from "./result";
+import { GetPilotResponse, Pilot } from "./types";
+import { abortableSleep } from "./utils";
+import { WikariError, WikariErrorCode } from "./wikari-error";
+
+export type EasingFunction = (t: number) => number;
+
+export const EASINGS = {
+	"linear": (t: number) => t,
+	"ease-in": (t: number) => t * t,
+	"ease-out": (t: number) => t * (2 - t),
+	"ease-in-out": (t: number) =>
+		t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2,
+} as const;
+
+export type Easing = keyof typeof EASINGS | EasingFunction;
+
+export type TransitionOptions = {
+	// how long the transition takes
+	durationMs: number;
+	// how the progress of the transition is mapped over time
+	easing?: Easing;
+	// how many intermediate pilots are sent per second
+	fps?: number;
+	// the pilot to start from, fetched from the bulb if not provided
+	from?: Pilot;
+	// aborts the transition, leaving the bulb at the last sent frame
+	signal?: AbortSignal;
+};
+
+// dimming below this turns the bulb off on most models,
+// so fades to and from off use it as the floor
+const MIN_DIMMING = 10;
+
+const COLOR_CHANNELS = ["r", "g", "b", "c", "w"] as const;
+
+const lerp = (from: number, to: number, t: number) =>
+	Math.round(from + (to - from) * t);
+
+/**
+ * Converts a pilot response from the bulb into a {@link Pilot} that can be
+ * used as the starting point of a transition.
+ */
+export const pilotFromResponse = ({
+	result,
+}: Pick<GetPilotResponse, "result">): Pilot => {
+	const { mac, rssi, src, ...pilot } = result;
+	return pilot;
+};
+
+/**
+ * Computes the pilot at a point in a transition.
+ *
+ * Dimming, the white temperature and the rgbcw channels are interpolated
+ * when both ends have them. Everything else (scenes, speed, turning the
+ * bulb off) cannot be interpolated and only applies once the transition
+ * is complete, that is, when `t` is 1.
+ *
+ * @param from the pilot the transition starts from
+ * @param to the pilot the transition ends at
+ * @param t the eased progress of the transition, from 0 to 1
+ */
+export function interpolatePilot(from: Pilot, to: Pilot, t: number): Pilot {
+	if (t >= 1) return { ...to };
+
+	const frame: Pilot = {};
+	const fromOff = from.state === false;
+
+	const fromDimming = fromOff ? MIN_DIMMING : from.dimming ?? 100;
+	const toDimming =
+		to.state === false ? MIN_DIMMING : to.dimming ?? from.dimming;
+	if (toDimming != undefined) frame.dimming = lerp(fromDimming, toDimming, t);
+
+	if (to.temp != undefined)
+		frame.temp =
+			from.temp != undefined && !fromOff
+				? lerp(from.temp, to.temp, t)
+				: to.temp;
+
+	if (COLOR_CHANNELS.some(k => to[k] != undefined)) {
+		// the bulb reports a white temperature or a scene without any
+		// channels, in which case the color fades in from black
+		const fromColor = !fromOff && COLOR_CHANNELS.some(k => from[k]);
+		for (const k of COLOR_CHANNELS)
+			frame[k] = lerp(fromColor ? from[k] ?? 0 : 0, to[k] ?? 0, t);
+	}
+
+	if (to.state !== false || !fromOff) frame.state = true;
+
+	return frame;
+}
+
+const resolveEasing = (easing: Easing = "linear"): EasingFunction =>
+	typeof easing == "function" ? easing : EASINGS[easing];
+
+const samePilot = (a: Pilot, b: Pilot) =>
+	JSON.stringify(a) == JSON.stringify(b);
+
+/**
+ * Runs a transition on a single bulb. You will usually want to use
+ * {@link Bulb.transition} instead, which cancels the previous transition
+ * of the bulb when a new one starts.
+ *
+ * Intermediate frames are sent without waiting for a response, so that a
+ * lost packet does not stall the transition. The final pilot is sent with
+ * {@link Bulb.setPilot}, and is therefore retried according to the retry
+ * policy of the bulb.
+ *
+ * @param bulb the bulb to run the transition on
+ * @param target the pilot to end at
+ * @param options the transition options
+ * @param signal aborts the transition
+ * @returns true if the transition completed, false if it was aborted
+ */
+export async function runTransition<M extends ErrorMode>(
+	bulb: Bulb<M>,
+	target: Pilot,
+	options: TransitionOptions,
+	signal: AbortSignal,
+): Promise<boolean> {
+	const fps = options.fps ?? DEFAULT_TRANSITION_FPS;
+	if (fps <= 0 || fps > 100)
+		throw new WikariError(
+			WikariErrorCode.ArgumentOutOfRange,
+			{ argument: "fps", lowerLimit: 1, higherLimit: 100, provided: fps },
+			"Frame rate must be in the range 1 <> 100",
+		);
+
+	const { errors } = bulb.client;
+	const from =
+		options.from ??
+		pilotFromResponse(unwrapOutcome(errors, await bulb.getPilot()));
+	if (signal.aborted) return false;
+
+	// there is nothing to fade, and sending any frames would turn it on
+	if (from.state === false && target.state === false) {
+		unwrapOutcome(errors, await bulb.setPilot(target));
+		return true;
+	}
+
+	const ease = resolveEasing(options.easing);
+	const frameMs = 1000 / fps;
+	const startedAt = Date.now();
+	let previous: Pilot | undefined;
+
+	while (Date.now() - startedAt < options.durationMs) {
+		const progress = (Date.now() - startedAt) / options.durationMs;
+		const frame = interpolatePilot(from, target, ease(progress));
+
+		if (!previous || !samePilot(previous, frame)) {
+			bulb
+				.sendRaw({ method: "setPilot", params: frame }, false)
+				.catch(() => {});
+			previous = frame;
+		}
+
+		if (!(await abortableSleep(frameMs, signal))) return false;
+	}
+
+	unwrapOutcome(errors, await bulb.setPilot(target));
+	return true;
+}
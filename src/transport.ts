@@ -0,0 +1,167 @@
+import dgram from "dgram";
+import EventEmitter from "events";
+
+/**
+ * The other end of a packet.
+ */
+export type TransportPeer = {
+	address: string;
+	port: number;
+};
+
+export type TransportEvents = {
+	message: (data: Buffer, peer: TransportPeer) => void;
+	// the transport failed after it was bound
+	error: (error: Error) => void;
+};
+
+/**
+ * Sends and receives the datagrams that bulbs are talked to with.
+ *
+ * {@link WikariClient}, {@link discover}, {@link scan} and {@link FakeBulb}
+ * only talk to a transport, which is a {@link UdpTransport} unless another
+ * one is passed, such as a {@link MemoryTransport} for tests or a
+ * {@link RecordingTransport} to capture the traffic.
+ *
+ * A transport can be bound again after it has been closed.
+ */
+export interface Transport {
+	/**
+	 * Starts listening.
+	 * @param port the local port, 0 picks a free one
+	 * @param address the local address, every address if not provided
+	 */
+	bind(port: number, address?: string): Promise<void>;
+	/**
+	 * Stops listening.
+	 */
+	close(): Promise<void>;
+	/**
+	 * Sends a packet. Sending on a transport that is not bound yet
+	 * binds it to a free port first.
+	 */
+	send(data: string, port: number, address: string): Promise<void>;
+	/**
+	 * Allows sending to broadcast addresses. Only valid once bound.
+	 */
+	setBroadcast(flag: boolean): void;
+	/**
+	 * @returns the local address and port. Only valid once bound.
+	 */
+	address(): TransportPeer;
+
+	on<E extends keyof TransportEvents>(
+		event: E,
+		listener: TransportEvents[E],
+	): this;
+	off<E extends keyof TransportEvents>(
+		event: E,
+		listener: TransportEvents[E],
+	): this;
+}
+
+export declare interface UdpTransport {
+	on<E extends keyof TransportEvents>(
+		event: E,
+		listener: TransportEvents[E],
+	): this;
+	off<E extends keyof TransportEvents>(
+		event: E,
+		listener: TransportEvents[E],
+	): this;
+	emit<E extends keyof TransportEvents>(
+		event: E,
+		...args: Parameters<TransportEvents[E]>
+	): boolean;
+}
+
+/**
+ * A {@link Transport} over a UDP socket, the default.
+ * Every time it's bound, a new socket is created.
+ */
+export class UdpTransport extends EventEmitter implements Transport {
+	private _socket: dgram.Socket | undefined;
+
+	/**
+	 * The current socket, undefined until the transport is bound
+	 * or something is sent over it.
+	 */
+	get socket() {
+		return this._socket;
+	}
+
+	bind(port: number, address?: string): Promise<void> {
+		if (this._socket)
+			return Promise.reject(new Error("The transport is already bound"));
+
+		const socket = this.createSocket();
+
+		return new Promise((resolve, reject) => {
+			const onError = (error: Error) => {
+				this._socket = undefined;
+				try {
+					socket.close();
+				} catch {
+					// already closed
+				}
+				reject(error);
+			};
+
+			socket.once("error", onError);
+			socket.bind(port, address, () => {
+				socket.off("error", onError);
+				socket.on("error", error => {
+					// emitting "error" without a listener would throw
+					if (this.listenerCount("error")) this.emit("error", error);
+				});
+				resolve();
+			});
+		});
+	}
+
+	close(): Promise<void> {
+		const socket = this._socket;
+		this._socket = undefined;
+		if (!socket) return Promise.resolve();
+
+		return new Promise(resolve => {
+			try {
+				socket.close(() => resolve());
+			} catch {
+				// the socket failed to bind and is already closed
+				resolve();
+			}
+		});
+	}
+
+	send(data: string, port: number, address: string): Promise<void> {
+		// like dgram, sending binds the socket to a random port
+		const socket = this._socket ?? this.createSocket();
+
+		return new Promise((resolve, reject) => {
+			socket.send(data, port, address, error => {
+				if (error) reject(error);
+				else resolve();
+			});
+		});
+	}
+
+	setBroadcast(flag: boolean) {
+		this._socket?.setBroadcast(flag);
+	}
+
+	address(): TransportPeer {
+		const { address, port } = (this._socket as dgram.Socket).address();
+		return { address, port };
+	}
+
+	private createSocket() {
+		const socket = dgram.createSocket("udp4");
+		socket.on("message", (msg, rinfo) =>
+			this.emit("message", msg, { address: rinfo.address, port: rinfo.port }),
+		);
+
+		this._socket = socket;
+		return socket;
+	}
+}
@@ -10,6 +10,33 @@ type valueTypeMap = {
 	boolean: boolean;
 };
 
+/**
+ * Rules a value must follow on top of it's type, all of them optional.
+ *
+ * * min, max: the range a number must be in (both inclusive)
+ * * integer: whether a number must be an integer
+ * * enum: the values that are allowed
+ * * items: for arrays, the rule or template every item must match
+ */
+export type ValueConstraints = {
+	min?: number;
+	max?: number;
+	integer?: boolean;
+	enum?: readonly (string | number | boolean)[];
+	items?: ValueRule | TypeTemplate;
+};
+
+// a single type, "array", or an array of types for a union
+type RuleType = valueType | "array" | valueType[];
+
+/**
+ * The expected type of a value, whether it's required, and optionally
+ * the {@link ValueConstraints} it must follow.
+ */
+export type ValueRule =
+	| [RuleType, boolean]
+	| [RuleType, boolean, ValueConstraints];
+
 /**
  * A TypeTemplate is an object denoting the structure of another object
  * It can then be used to verify the structure of the said object
@@ -28,10 +55,21 @@ type valueTypeMap = {
  * Here, in the target object, `name` must be a string and must be present
  * Whereas `creditCardInfo` does not have to be a string, but if it is, it
  * must be a string. The template can also be recursive. These templates
- * can then be used with the function {@link checkType}.
+ * can then be used with the functions {@link checkType} and {@link validate}.
+ *
+ * The tuple can also have a third element with {@link ValueConstraints},
+ * the type can be "array", and an array of types makes a union:
+ * ```ts
+ * {
+ *    dimming: ["number", false, { min: 0, max: 100 }],
+ *    mode: ["string", false, { enum: ["once", "loop"] }],
+ *    cctRange: ["array", false, { items: ["number", true] }],
+ *    id: [["number", "string"], true]
+ * }
+ * ```
  */
-type TypeTemplate = {
-	[k: string]: [valueType, boolean] | TypeTemplate;
+export type TypeTemplate = {
+	[k: string]: ValueRule | TypeTemplate;
 };
 
 /**
@@ -41,12 +79,28 @@ type TypeTemplate = {
  */
 export const makeTypeTemplate = <T extends TypeTemplate>(v: T) => v;
 
+type ItemType<I> = I extends ValueRule
+	? RuleValue<I>
+	: I extends TypeTemplate
+	? FromTypeTemplate<I>
+	: unknown;
+
+type RuleValue<R extends ValueRule> = R[0] extends "array"
+	? R extends [any, any, { items: infer I }]
+		? ItemType<I>[]
+		: unknown[]
+	: R[0] extends valueType[]
+	? valueTypeMap[R[0][number]]
+	: R[0] extends valueType
+	? valueTypeMap[R[0]]
+	: never;
+
 type GetKey<
 	T extends TypeTemplate,
 	K extends keyof T,
 	IsRequired extends boolean,
 > = T extends TypeTemplate
-	? T[K][0] extends valueType
+	? T[K] extends ValueRule
 		? T[K][1] extends IsRequired
 			? K
 			: never
@@ -56,16 +110,16 @@ type GetKey<
 type RequiredProperties<T extends TypeTemplate> = {
 	[K in keyof T as GetKey<T, K, true>]: T[K] extends TypeTemplate
 		? Expand<RequiredProperties<T[K]>>
-		: T[K][0] extends valueType
-		? valueTypeMap[T[K][0]]
+		: T[K] extends ValueRule
+		? RuleValue<T[K]>
 		: never;
 };
 
 type OptionalProperties<T extends TypeTemplate> = {
 	[K in keyof T as GetKey<T, K, false>]?: T[K] extends TypeTemplate
 		? Expand<OptionalProperties<T[K]>>
-		: T[K][0] extends valueType
-		? valueTypeMap[T[K][0]]
+		: T[K] extends ValueRule
+		? RuleValue<T[K]>
 		: never;
 };
 
@@ -79,22 +133,161 @@ export type FromTypeTemplate<T extends TypeTemplate> = Expand<
 	RequiredProperties<T> & OptionalProperties<T> & NestedProperties<T>
 >;
 
-export function checkType<T extends TypeTemplate>(
-	template: T,
+/**
+ * A problem found by {@link validate}.
+ */
+export type TypeDiagnostic = {
+	// where the problem is, e.g. `result.dimming` or `keyframes[2].pilot.r`
+	path: string;
+	// what was expected, e.g. `number` or `0..100`
+	expected: string;
+	// the value that was found
+	received: unknown;
+	// the range the value had to be in, if that was the problem
+	min?: number;
+	max?: number;
+	// e.g. `result.dimming: expected 0..100, got 140`
+	message: string;
+};
+
+const describeValue = (value: unknown) =>
+	typeof value == "string"
+		? JSON.stringify(value)
+		: Array.isArray(value)
+		? "an array"
+		: value === null
+		? "null"
+		: typeof value == "object"
+		? "an object"
+		: String(value);
+
+const describeType = (type: RuleType) =>
+	Array.isArray(type) ? type.join(" | ") : type;
+
+const matchesType = (type: RuleType, value: unknown): boolean =>
+	Array.isArray(type)
+		? type.some(t => matchesType(t, value))
+		: type == "array"
+		? Array.isArray(value)
+		: typeof value == type;
+
+const describeRange = (min?: number, max?: number) =>
+	min != undefined && max != undefined
+		? `${min}..${max}`
+		: min != undefined
+		? `>= ${min}`
+		: `<= ${max}`;
+
+const joinPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+function diagnose(
+	diagnostics: TypeDiagnostic[],
+	path: string,
+	expected: string,
+	received: unknown,
+	range?: { min?: number; max?: number },
+) {
+	const message = `expected ${expected}, got ${describeValue(received)}`;
+	diagnostics.push({
+		path,
+		expected,
+		received,
+		...range,
+		message: path ? `${path}: ${message}` : message,
+	});
+}
+
+function validateRule(
+	rule: ValueRule,
+	value: unknown,
+	path: string,
+	diagnostics: TypeDiagnostic[],
+) {
+	const [type, required, constraints = {}] = rule;
+	const { min, max, integer, items } = constraints;
+
+	if (value === undefined) {
+		if (required) diagnose(diagnostics, path, describeType(type), value);
+		return;
+	}
+
+	if (!matchesType(type, value))
+		return diagnose(diagnostics, path, describeType(type), value);
+
+	if (Array.isArray(value) && items)
+		value.forEach((item, i) => {
+			const itemPath = `${path}[${i}]`;
+			if (Array.isArray(items))
+				validateRule(items, item, itemPath, diagnostics);
+			else validateTemplate(items, item, itemPath, diagnostics);
+		});
+
+	if (typeof value == "number") {
+		if (integer && !Number.isInteger(value))
+			diagnose(diagnostics, path, "an integer", value);
+		if ((min != undefined && value < min) || (max != undefined && value > max))
+			diagnose(diagnostics, path, describeRange(min, max), value, {
+				min,
+				max,
+			});
+	}
+
+	if (
+		constraints.enum &&
+		!constraints.enum.includes(value as string | number | boolean)
+	)
+		diagnose(
+			diagnostics,
+			path,
+			`one of ${constraints.enum.map(describeValue).join(", ")}`,
+			value,
+		);
+}
+
+function validateTemplate(
+	template: TypeTemplate,
 	obj: any,
-): obj is FromTypeTemplate<T> {
-	if (typeof obj != "object" || obj == null) return false;
+	path: string,
+	diagnostics: TypeDiagnostic[],
+) {
+	if (typeof obj != "object" || obj == null || Array.isArray(obj))
+		return diagnose(diagnostics, path, "an object", obj);
 
 	for (const [key, value] of Object.entries(template)) {
-		if (Array.isArray(value)) {
-			const ogType = typeof obj[key];
-			const [type, required] = value as [valueType, boolean];
-			if (ogType != type)
-				if (!(ogType == "undefined" && !required)) return false;
-		} else {
-			if (!checkType(value as TypeTemplate, obj[key])) return false;
-		}
+		if (Array.isArray(value))
+			validateRule(value, obj[key], joinPath(path, key), diagnostics);
+		else validateTemplate(value, obj[key], joinPath(path, key), diagnostics);
 	}
+}
 
-	return true;
+/**
+ * Checks an object against a template, like {@link checkType}, but
+ * reports everything that is wrong with it instead of a boolean.
+ *
+ * ```ts
+ * validate(getPilotResponseTemplate, response);
+ * // [{ path: "result.dimming", expected: "0..100", received: 140,
+ * //    message: "result.dimming: expected 0..100, got 140", ... }]
+ * ```
+ *
+ * @returns the problems found, empty if the object matches the template
+ */
+export function validate(
+	template: TypeTemplate,
+	obj: unknown,
+): TypeDiagnostic[] {
+	const diagnostics: TypeDiagnostic[] = [];
+	validateTemplate(template, obj, "", diagnostics);
+	return diagnostics;
+}
+
+/**
+ * @returns whether the object matches the template,
+ * see {@link validate} to find out what does not match
+ */
+export function checkType<T extends TypeTemplate>(
+	template: T,
+	obj: any,
+): obj is FromTypeTemplate<T> {
+	return validate(template, obj).length == 0;
 }
@@ -5,29 +5,35 @@ import {
 import { FromTypeTemplate, makeTypeTemplate } from "./type-checker";
 
 export const pilotTemplate = makeTypeTemplate({
-	// range 1-32
-	sceneId: ["number", false],
-	// range 1-100, is a percentage
-	speed: ["number", false],
-	// range 1-100, is a percentage
-	dimming: ["number", false],
-	// range 1000-10_000, kelvin
-	temp: ["number", false],
-	// range 0-255
-	r: ["number", false],
-	// range 0-255
-	g: ["number", false],
-	// range 0-255
-	b: ["number", false],
-	// range 0-255
-	c: ["number", false],
-	// range 0-255
-	w: ["number", false],
+	// 1-32 for the scenes in SCENES, bulbs report 0 when no scene is set
+	sceneId: ["number", false, { integer: true, min: 0 }],
+	// is a percentage, some firmware reports up to 200
+	speed: ["number", false, { min: 1, max: 200 }],
+	// is a percentage
+	dimming: ["number", false, { min: 0, max: 100 }],
+	// kelvin
+	temp: ["number", false, { min: 1000, max: 10_000 }],
+	r: ["number", false, { min: 0, max: 255 }],
+	g: ["number", false, { min: 0, max: 255 }],
+	b: ["number", false, { min: 0, max: 255 }],
+	c: ["number", false, { min: 0, max: 255 }],
+	w: ["number", false, { min: 0, max: 255 }],
 	// whether the bulb is on or off
 	state: ["boolean", false],
 });
 export type Pilot = FromTypeTemplate<typeof pilotTemplate>;
 
+/**
+ * The arguments of {@link Bulb.scene}, which are stricter than a pilot.
+ */
+export const sceneArgsTemplate = makeTypeTemplate({
+	sceneId: ["number", true, { integer: true, min: 1, max: 32 }],
+	// is a percentage
+	speed: ["number", false, { min: 1, max: 100 }],
+	// is a percentage
+	dimming: ["number", false, { min: 1, max: 100 }],
+});
+
 type IfExtends<P, Q, R extends Pilot> = P extends Q ? R : {};
 export type GetSceneArgs<Scene extends number> = IfExtends<
 	Scene,
@@ -40,10 +46,48 @@ export type GetSceneArgs<Scene extends number> = IfExtends<
 		{ dimming?: number }
 	>;
 
+/**
+ * Describes how a request is retried when the bulb does not respond.
+ *
+ * * attempts: total number of times the request is sent, 1 disables retries
+ * * backoffMs: delay before the first retry
+ * * backoffFactor: the delay is multiplied by this after every retry
+ * * maxBackoffMs: upper limit for the delay
+ * * jitter: fraction (0 to 1) of the delay that is randomised, so that
+ *   many clients retrying at once do not send their packets in lockstep
+ */
+export type RetryPolicy = {
+	attempts: number;
+	backoffMs: number;
+	backoffFactor: number;
+	maxBackoffMs: number;
+	jitter: number;
+};
+
+export type RequestOptions = {
+	// how long to wait for a response, in milliseconds
+	responseTimeout?: number;
+	// overrides the retry policy of the bulb for this request
+	retry?: Partial<RetryPolicy>;
+};
+
+export type SubscribeOptions = {
+	// network interface connected to the network the bulb is on
+	networkInterface?: string;
+	// how often to register again, so the bulb keeps sending updates
+	renewIntervalMs?: number;
+	// how long the bulb may be silent before it's considered offline
+	offlineAfterMs?: number;
+};
+
 // #############
 //   Responses
 // #############
-export type GenericResponse = { method: string; params: Record<string, any> };
+export type GenericResponse = {
+	method: string;
+	id?: number;
+	params: Record<string, any>;
+};
 
 // getPilot
 export const getPilotResponseTemplate = makeTypeTemplate({
@@ -52,18 +96,11 @@ export const getPilotResponseTemplate = makeTypeTemplate({
 	result: {
 		mac: ["string", true],
 		rssi: ["number", true],
-		state: ["boolean", true],
-		sceneId: ["number", true],
-		// optional properties
 		src: ["string", false],
-		temp: ["number", false],
-		speed: ["number", false],
-		r: ["number", false],
-		g: ["number", false],
-		b: ["number", false],
-		c: ["number", false],
-		w: ["number", false],
-		dimming: ["number", false],
+		...pilotTemplate,
+		// always present in responses
+		state: ["boolean", true],
+		sceneId: ["number", true, { integer: true, min: 0 }],
 	},
 });
 
@@ -82,6 +119,79 @@ export const setPilotResponseTemplate = makeTypeTemplate({
 
 export type SetPilotType = FromTypeTemplate<typeof setPilotResponseTemplate>;
 
+// getSystemConfig
+export const getSystemConfigResponseTemplate = makeTypeTemplate({
+	method: ["string", true],
+	env: ["string", true],
+	result: {
+		mac: ["string", true],
+		// e.g. ESP01_SHRGB_03, identifies the hardware of the bulb
+		moduleName: ["string", true],
+		fwVersion: ["string", true],
+		// optional properties
+		homeId: ["number", false],
+		roomId: ["number", false],
+		groupId: ["number", false],
+		typeId: ["number", false],
+		// region, e.g. "eu" or "us"
+		rgn: ["string", false],
+		ping: ["number", false],
+		ewfHex: ["string", false],
+		drvConf: ["array", false, { items: ["number", true] }],
+		ewf: ["array", false, { items: ["number", true] }],
+	},
+});
+
+export type GetSystemConfigResponse = FromTypeTemplate<
+	typeof getSystemConfigResponseTemplate
+>;
+
+// getModelConfig
+// only supported by firmware 1.22 and newer
+export const getModelConfigResponseTemplate = makeTypeTemplate({
+	method: ["string", true],
+	env: ["string", true],
+	result: {
+		// power supply type
+		ps: ["number", false],
+		pwmFreq: ["number", false],
+		// white channel ratio
+		wcr: ["number", false],
+		// number of white channels
+		nowc: ["number", false],
+		// 1 if the minimum dimming level can be adjusted
+		hasAdjMinDim: ["number", false],
+		// 1 if the bulb supports the tap sensor
+		hasTapSensor: ["number", false],
+		fanSpeed: ["number", false],
+		// supported kelvin range, [min, ..., max]
+		cctRange: ["array", false, { items: ["number", true] }],
+		pwmRange: ["array", false, { items: ["number", true] }],
+		renderFactor: ["array", false, { items: ["number", true] }],
+	},
+});
+
+export type GetModelConfigResponse = FromTypeTemplate<
+	typeof getModelConfigResponseTemplate
+>;
+
+/**
+ * Hardware and firmware information about a bulb, see
+ * {@link Bulb.getDeviceInfo}.
+ */
+export type DeviceInfo = {
+	mac: string;
+	moduleName: string;
+	fwVersion: string;
+	homeId?: number;
+	roomId?: number;
+	groupId?: number;
+	typeId?: number;
+	region?: string;
+	// undefined if the firmware does not support getModelConfig
+	modelConfig?: GetModelConfigResponse["result"];
+};
+
 // syncPilot
 export const syncPilotResponseTemplate = makeTypeTemplate({
 	method: ["string", true],
@@ -106,6 +216,7 @@ export type SyncPilotResponse = FromTypeTemplate<
 // ##########################
 export interface GenericMsg {
 	method: string;
+	id?: number;
 	params: Record<any, any>;
 }
 
@@ -119,6 +230,16 @@ export interface GetPilotMsg extends GenericMsg {
 	params: {};
 }
 
+export interface GetSystemConfigMsg extends GenericMsg {
+	method: "getSystemConfig";
+	params: {};
+}
+
+export interface GetModelConfigMsg extends GenericMsg {
+	method: "getModelConfig";
+	params: {};
+}
+
 export type SyncPilotMsg = SyncPilotResponse;
 
 export interface SyncPilotAckMsg {
@@ -144,6 +265,8 @@ export interface RegistrationMsg extends GenericMsg {
 export type Message =
 	| SetPilotMsg
 	| GetPilotMsg
+	| GetSystemConfigMsg
+	| GetModelConfigMsg
 	| SyncPilotMsg
 	| SyncPilotAckMsg
 	| RegistrationMsg
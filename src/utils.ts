@@ -1,9 +1,48 @@
-import { HEX_COLOR_REGEX, POSSIBLE_MAC_CHARACTERS } from "./constants";
+import {
+	HEX_COLOR_REGEX,
+	POSSIBLE_MAC_CHARACTERS,
+	SHORT_HEX_COLOR_REGEX,
+} from "./constants";
 import os from "os";
+import { RetryPolicy } from "./types";
 
 export const sleep = (ms: number) =>
 	new Promise<void>(resolve => setTimeout(resolve, ms));
 
+/**
+ * @param policy the retry policy in use
+ * @param retry how many retries have already been made
+ * @returns how long to wait before the next retry, in milliseconds
+ */
+export const getBackoffDelay = (policy: RetryPolicy, retry: number) => {
+	const delay = Math.min(
+		policy.backoffMs * policy.backoffFactor ** retry,
+		policy.maxBackoffMs,
+	);
+	const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+
+	return Math.round(delay * (1 - jitter * Math.random()));
+};
+
+/**
+ * Like {@link sleep}, but ends early when the signal is aborted.
+ * @returns true if the full time has passed, false if it was aborted
+ */
+export const abortableSleep = (ms: number, signal: AbortSignal) =>
+	new Promise<boolean>(resolve => {
+		if (signal.aborted) return resolve(false);
+
+		const onAbort = () => {
+			clearTimeout(timer);
+			resolve(false);
+		};
+		const timer = setTimeout(() => {
+			signal.removeEventListener("abort", onAbort);
+			resolve(true);
+		}, ms);
+		signal.addEventListener("abort", onAbort, { once: true });
+	});
+
 export const getRandomMac = () =>
 	[...Array(12).keys()]
 		.map(() =>
@@ -13,7 +52,22 @@ export const getRandomMac = () =>
 		)
 		.join("");
 
+/**
+ * @returns the MAC address in lowercase, without any separators,
+ * which is the format the bulbs use
+ */
+export const normalizeMac = (mac: string) =>
+	mac.toLowerCase().replace(/[^0-9a-f]/g, "");
+
 export const hexToRgb = (hex: `#${string}`) => {
+	// #abc is short for #aabbcc
+	const short = SHORT_HEX_COLOR_REGEX.exec(hex);
+	if (short)
+		hex = `#${short
+			.slice(1)
+			.map(digit => digit + digit)
+			.join("")}`;
+
 	const result = HEX_COLOR_REGEX.exec(hex);
 
 	return result
@@ -45,4 +99,163 @@ export const ipAddress = (networkInterface?: string) => {
 	return undefined;
 };
 
+export const ipToInt = (ip: string) =>
+	ip.split(".").reduce((acc, octet) => acc * 256 + parseInt(octet, 10), 0);
+
+export const intToIp = (n: number) =>
+	[24, 16, 8, 0].map(shift => (n >>> shift) & 255).join(".");
+
+/**
+ * Computes the broadcast address of every non-internal IPv4 network
+ * interface from it's address and netmask.
+ *
+ * @param networkInterface only consider the interface with this name
+ * @returns the unique broadcast addresses
+ */
+export const broadcastAddresses = (networkInterface?: string) => {
+	const nets = os.networkInterfaces();
+	const addresses = new Set<string>();
+
+	for (const name of Object.keys(nets)) {
+		if (networkInterface && name != networkInterface) continue;
+
+		for (const net of nets[name] ?? []) {
+			// see ipAddress for why the family is checked this way
+			const ipv4 = typeof net.family === "string" ? "IPv4" : 4;
+			if (net.family !== ipv4 || net.internal) continue;
+
+			const mask = ipToInt(net.netmask);
+			addresses.add(intToIp((ipToInt(net.address) | ~mask) >>> 0));
+		}
+	}
+
+	return [...addresses];
+};
+
+/**
+ * Parses an IPv4 CIDR range such as `10.0.4.0/22`.
+ *
+ * @returns the first and last usable host addresses as integers (the network
+ * and broadcast addresses are skipped for prefixes shorter than /31), or an
+ * error if the range is invalid
+ */
+export const parseCidr = (cidr: string) => {
+	const match = /^(\d{1,3}(?:\.\d{1,3}){3})(?:\/(\d{1,2}))?$/.exec(cidr.trim());
+	if (!match) return new Error("Invalid CIDR range");
+
+	const [, ip, prefixString = "32"] = match;
+	const prefix = parseInt(prefixString, 10);
+	if (prefix > 32 || ip.split(".").some(octet => parseInt(octet, 10) > 255))
+		return new Error("Invalid CIDR range");
+
+	const size = 2 ** (32 - prefix);
+	const network = ipToInt(ip) - (ipToInt(ip) % size);
+	const broadcast = network + size - 1;
+
+	return prefix >= 31
+		? { first: network, last: broadcast }
+		: { first: network + 1, last: broadcast - 1 };
+};
+
+export type ZonedTime = {
+	year: number;
+	// 1 to 12
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+	second: number;
+	// 0 (sunday) to 6 (saturday)
+	weekday: number;
+};
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Gets the wall clock time of an instant in a time zone.
+ *
+ * @param date the instant
+ * @param timeZone an IANA time zone such as "Europe/Berlin", the system
+ * time zone if not provided
+ * @throws RangeError if the time zone is not valid
+ */
+export const getZonedTime = (date: Date | number, timeZone?: string) => {
+	const key = timeZone ?? "";
+	let formatter = zonedFormatters.get(key);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat("en-US", {
+			timeZone,
+			hourCycle: "h23",
+			year: "numeric",
+			month: "numeric",
+			day: "numeric",
+			hour: "numeric",
+			minute: "numeric",
+			second: "numeric",
+		});
+		zonedFormatters.set(key, formatter);
+	}
+
+	const parts: Record<string, number> = {};
+	for (const { type, value } of formatter.formatToParts(date))
+		if (type != "literal") parts[type] = parseInt(value, 10);
+
+	const { year, month, day, hour, minute, second } = parts;
+	return {
+		year,
+		month,
+		day,
+		hour,
+		minute,
+		second,
+		weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+	} as ZonedTime;
+};
+
+/**
+ * Converts a wall clock time in a time zone to an instant. Times that do
+ * not exist because of a DST change are moved forward by the size of the
+ * change, and times that exist twice resolve to the first one.
+ *
+ * @returns the instant, in milliseconds since the epoch
+ */
+export const zonedTimeToMs = (
+	time: Pick<ZonedTime, "year" | "month" | "day" | "hour" | "minute">,
+	timeZone?: string,
+) => {
+	const wall = Date.UTC(
+		time.year,
+		time.month - 1,
+		time.day,
+		time.hour,
+		time.minute,
+	);
+
+	const offsetAt = (ms: number) => {
+		const t = getZonedTime(ms, timeZone);
+		const asUtc = Date.UTC(
+			t.year,
+			t.month - 1,
+			t.day,
+			t.hour,
+			t.minute,
+			t.second,
+		);
+		return asUtc - Math.floor(ms / 1000) * 1000;
+	};
+
+	const matches = (ms: number) => {
+		const t = getZonedTime(ms, timeZone);
+		return t.hour == time.hour && t.minute == time.minute;
+	};
+
+	// DST changes never happen twice within a day, so the offsets half a
+	// day before and after cover both sides of any change near this time
+	const before = wall - offsetAt(wall - 43_200_000);
+	const after = wall - offsetAt(wall + 43_200_000);
+
+	if (matches(after) && (after < before || !matches(before))) return after;
+	return before;
+};
+
 export type Expand<T> = T extends infer O ? { [K in keyof O]: O[K] } : never;
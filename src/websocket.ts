@@ -0,0 +1,187 @@
+import { createHash } from "crypto";
+import EventEmitter from "events";
+import { IncomingMessage } from "http";
+import { Duplex } from "stream";
+import { MAX_WEBSOCKET_FRAME_BYTES, WEBSOCKET_GUID } from "./constants";
+
+const enum Opcode {
+	Continuation = 0x0,
+	Text = 0x1,
+	Binary = 0x2,
+	Close = 0x8,
+	Ping = 0x9,
+	Pong = 0xa,
+}
+
+const enum CloseCode {
+	ProtocolError = 1002,
+	MessageTooBig = 1009,
+}
+
+const OPCODES = [
+	Opcode.Continuation,
+	Opcode.Text,
+	Opcode.Binary,
+	Opcode.Close,
+	Opcode.Ping,
+	Opcode.Pong,
+];
+
+export declare interface WebSocketConnection {
+	on(event: "close", listener: () => void): this;
+	once(event: "close", listener: () => void): this;
+	off(event: "close", listener: () => void): this;
+	emit(event: "close"): boolean;
+}
+
+/**
+ * The server side of a WebSocket, only as much of RFC 6455 as is needed
+ * to push messages to a client: text messages are sent, pings are
+ * answered and closing is handled, but messages from the client are
+ * ignored.
+ *
+ * Frames larger than {@link MAX_WEBSOCKET_FRAME_BYTES} close the connection
+ * with 1009, and frames that break the protocol, e.g. by not being masked,
+ * with 1002.
+ */
+export class WebSocketConnection extends EventEmitter {
+	private readonly socket: Duplex;
+	private buffer = Buffer.alloc(0);
+	private closed = false;
+
+	private constructor(socket: Duplex) {
+		super();
+		this.socket = socket;
+		socket.on("data", data => this.receive(data));
+		socket.on("close", () => this.finish());
+		socket.on("error", () => {
+			socket.destroy();
+			this.finish();
+		});
+	}
+
+	/**
+	 * Completes the handshake of an upgrade request.
+	 * @returns the connection, or undefined if the request is not a
+	 * WebSocket handshake, in which case a 400 is sent
+	 */
+	static accept(req: IncomingMessage, socket: Duplex) {
+		const key = req.headers["sec-websocket-key"];
+		if (req.headers.upgrade?.toLowerCase() != "websocket" || !key) {
+			socket.end("HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n");
+			return undefined;
+		}
+
+		const accept = createHash("sha1")
+			.update(key + WEBSOCKET_GUID)
+			.digest("base64");
+		socket.write(
+			"HTTP/1.1 101 Switching Protocols\r\n" +
+				"Upgrade: websocket\r\n" +
+				"Connection: Upgrade\r\n" +
+				`Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+		);
+
+		return new WebSocketConnection(socket);
+	}
+
+	get open() {
+		return !this.closed;
+	}
+
+	send(text: string) {
+		this.write(Opcode.Text, Buffer.from(text));
+	}
+
+	/**
+	 * @param code the status code to send with the close frame, none if
+	 * not provided
+	 */
+	close(code?: number) {
+		if (this.closed) return;
+
+		const payload = Buffer.alloc(code == undefined ? 0 : 2);
+		if (code != undefined) payload.writeUInt16BE(code);
+		this.write(Opcode.Close, payload);
+		this.socket.end();
+		this.finish();
+	}
+
+	private write(opcode: Opcode, payload: Buffer) {
+		if (this.closed) return;
+
+		let header: Buffer;
+		if (payload.length < 126) {
+			header = Buffer.from([0x80 | opcode, payload.length]);
+		} else if (payload.length < 0x10000) {
+			header = Buffer.alloc(4);
+			header.writeUInt16BE(payload.length, 2);
+			header[1] = 126;
+		} else {
+			header = Buffer.alloc(10);
+			header.writeBigUInt64BE(BigInt(payload.length), 2);
+			header[1] = 127;
+		}
+		header[0] = 0x80 | opcode;
+
+		this.socket.write(Buffer.concat([header, payload]));
+	}
+
+	private receive(data: Buffer) {
+		if (this.closed) return;
+
+		this.buffer = Buffer.concat([this.buffer, data]);
+		while (this.buffer.length >= 2) {
+			const fin = (this.buffer[0] & 0x80) != 0;
+			const reserved = this.buffer[0] & 0x70;
+			const opcode = this.buffer[0] & 0x0f;
+			const masked = (this.buffer[1] & 0x80) != 0;
+			let length = this.buffer[1] & 0x7f;
+			let offset = 2;
+
+			// clients must mask every frame, and control frames
+			// must be short and not fragmented
+			const control = opcode >= Opcode.Close;
+			if (
+				reserved ||
+				!masked ||
+				!OPCODES.includes(opcode) ||
+				(control && (!fin || length > 125))
+			)
+				return this.close(CloseCode.ProtocolError);
+
+			if (length == 126) {
+				if (this.buffer.length < 4) return;
+				length = this.buffer.readUInt16BE(2);
+				offset = 4;
+			} else if (length == 127) {
+				if (this.buffer.length < 10) return;
+				length = Number(this.buffer.readBigUInt64BE(2));
+				offset = 10;
+			}
+
+			if (length > MAX_WEBSOCKET_FRAME_BYTES)
+				return this.close(CloseCode.MessageTooBig);
+
+			const mask = this.buffer.subarray(offset, offset + 4);
+			offset += 4;
+			if (this.buffer.length < offset + length) return;
+
+			const payload = Buffer.from(
+				this.buffer.subarray(offset, offset + length),
+			);
+			for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+			this.buffer = this.buffer.subarray(offset + length);
+
+			if (opcode == Opcode.Close) return this.close();
+			if (opcode == Opcode.Ping) this.write(Opcode.Pong, payload);
+		}
+	}
+
+	private finish() {
+		if (this.closed) return;
+
+		this.closed = true;
+		this.emit("close");
+	}
+}
@@ -1,4 +1,6 @@
 import { WikariState } from "./bulb";
+import { BulbType } from "./capabilities";
+import { TypeDiagnostic } from "./type-checker";
 
 export const enum WikariErrorCode {
 	ArgumentOutOfRange,
@@ -9,8 +11,22 @@ export const enum WikariErrorCode {
 	RequestSendError,
 	RequestTimedOut,
 	BulbReturnedFailure,
+	UnsupportedOperation,
+	InvalidArgument,
 }
 
+/**
+ * A failed attempt at sending a request, see {@link RetryPolicy}.
+ */
+export type RequestAttempt = {
+	attempt: number;
+	error: WikariError;
+	// time spent on the attempt, in milliseconds
+	durationMs: number;
+	// delay before the next attempt, in milliseconds
+	backoffMs?: number;
+};
+
 export type WErrorArgMap = {
 	[WikariErrorCode.ArgumentOutOfRange]: {
 		argument: string;
@@ -30,6 +46,8 @@ export type WErrorArgMap = {
 
 	[WikariErrorCode.ResponseValidationFailed]: {
 		response: Record<any, any>;
+		// what was wrong with the response
+		diagnostics: TypeDiagnostic[];
 	};
 
 	[WikariErrorCode.ResponseParseFailed]: {
@@ -39,15 +57,28 @@ export type WErrorArgMap = {
 
 	[WikariErrorCode.RequestSendError]: {
 		error: Error;
+		attempts?: RequestAttempt[];
 	};
 
 	[WikariErrorCode.RequestTimedOut]: {
 		responseWaitMs: number;
+		attempts?: RequestAttempt[];
 	};
 
 	[WikariErrorCode.BulbReturnedFailure]: {
 		response: Record<any, any>;
 	};
+
+	[WikariErrorCode.UnsupportedOperation]: {
+		operation: string;
+		bulbType: BulbType;
+		moduleName?: string;
+	};
+
+	[WikariErrorCode.InvalidArgument]: {
+		argument: string;
+		provided: unknown;
+	};
 };
 
 type WikariErrorData = WErrorArgMap[WikariErrorCode];
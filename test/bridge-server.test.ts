@@ -0,0 +1,155 @@
+import assert from "assert/strict";
+import http from "http";
+import { after, before, describe, it } from "node:test";
+import { BridgeServer } from "../src/bridge-server";
+import { Bulb } from "../src/bulb";
+import { WikariClient } from "../src/client";
+import { WIZ_BULB_LISTEN_PORT } from "../src/constants";
+import { FakeBulb } from "../src/fake-bulb";
+import { MemoryNetwork } from "../src/memory-transport";
+
+const MAC = "a8bb50d46a1c";
+const TOKEN = "s3cret";
+
+describe("BridgeServer", () => {
+	let fake: FakeBulb;
+	let client: WikariClient;
+	let bridge: BridgeServer;
+	let port: number;
+
+	const request = (
+		method: string,
+		path: string,
+		body?: unknown,
+		token: string | null = TOKEN,
+	) =>
+		new Promise<{ status: number; body: any }>((resolve, reject) => {
+			const req = http.request(
+				{
+					host: "127.0.0.1",
+					port,
+					method,
+					path,
+					headers: token ? { Authorization: `Bearer ${token}` } : {},
+				},
+				res => {
+					let data = "";
+					res.on("data", chunk => (data += chunk));
+					res.on("end", () =>
+						resolve({
+							status: res.statusCode as number,
+							body: data ? JSON.parse(data) : undefined,
+						}),
+					);
+				},
+			);
+			req.on("error", reject);
+			if (body != undefined)
+				req.write(typeof body == "string" ? body : JSON.stringify(body));
+			req.end();
+		});
+
+	before(async () => {
+		const network = new MemoryNetwork();
+		fake = new FakeBulb({ mac: MAC, transport: network.transport("10.0.0.5") });
+		await fake.listen(WIZ_BULB_LISTEN_PORT);
+
+		client = new WikariClient({ transport: network.transport("10.0.0.2") });
+		const bulbs = new Map<string, Bulb>([[MAC, client.bulb("10.0.0.5")]]);
+		await client.open();
+
+		bridge = new BridgeServer({ bulbs, token: TOKEN, subscribe: false });
+		port = await bridge.listen(0, "127.0.0.1");
+	});
+
+	after(async () => {
+		await bridge.close();
+		client.close();
+		await fake.close();
+	});
+
+	it("requires the token", async () => {
+		assert.equal(
+			(await request("GET", "/bulbs", undefined, "wrong")).status,
+			401,
+		);
+		assert.equal((await request("GET", "/bulbs", undefined, null)).status, 401);
+	});
+
+	it("lists the bulbs", async () => {
+		const { status, body } = await request("GET", "/bulbs");
+
+		assert.equal(status, 200);
+		assert.deepEqual(
+			body.map((bulb: { mac: string }) => bulb.mac),
+			[MAC],
+		);
+	});
+
+	it("finds bulbs by their MAC address in any format", async () => {
+		const { status, body } = await request(
+			"GET",
+			`/bulbs/${encodeURIComponent("A8:BB:50:D4:6A:1C")}`,
+		);
+
+		assert.equal(status, 200);
+		assert.equal(body.mac, MAC);
+		assert.equal(body.address, "10.0.0.5");
+		assert.equal(body.pilot.dimming, fake.pilot.dimming);
+	});
+
+	it("sets the pilot of a bulb", async () => {
+		const { status } = await request("PATCH", `/bulbs/${MAC}`, {
+			dimming: 30,
+		});
+
+		assert.equal(status, 200);
+		assert.equal(fake.pilot.dimming, 30);
+	});
+
+	it("sets a scene", async () => {
+		const { status } = await request("POST", `/bulbs/${MAC}/scene`, {
+			sceneId: 4,
+			speed: 50,
+		});
+
+		assert.equal(status, 200);
+		assert.equal(fake.pilot.sceneId, 4);
+	});
+
+	it("rejects invalid bodies", async () => {
+		const outOfRange = await request("PATCH", `/bulbs/${MAC}`, {
+			dimming: 500,
+			foo: 1,
+		});
+		assert.equal(outOfRange.status, 400);
+		assert.deepEqual(
+			outOfRange.body.error.diagnostics.map((d: { path: string }) => d.path),
+			["dimming", "foo"],
+		);
+
+		assert.equal(
+			(await request("PATCH", `/bulbs/${MAC}`, "{oops")).status,
+			400,
+		);
+	});
+
+	it("answers unknown bulbs and routes with 404", async () => {
+		for (const path of [
+			"/bulbs/nobody",
+			"/lights",
+			`/bulbs/${MAC}/effect`,
+			`/bulbs/${MAC}/scene/4`,
+		])
+			assert.equal((await request("GET", path)).status, 404, path);
+	});
+
+	it("answers methods a route does not have with 405", async () => {
+		assert.equal((await request("DELETE", `/bulbs/${MAC}`)).status, 405);
+		assert.equal((await request("GET", `/bulbs/${MAC}/scene`)).status, 405);
+	});
+
+	it("answers malformed paths with 400", async () => {
+		assert.equal((await request("GET", "/bulbs/%E0%A4%A")).status, 400);
+	});
+});
@@ -0,0 +1,83 @@
+import assert from "assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { Bulb } from "../src/bulb";
+import { WikariClient } from "../src/client";
+import { WIZ_BULB_LISTEN_PORT } from "../src/constants";
+import { FakeBulb } from "../src/fake-bulb";
+import { MemoryNetwork } from "../src/memory-transport";
+
+describe("Bulb events", () => {
+	let fake: FakeBulb;
+	let client: WikariClient;
+	let bulb: Bulb;
+
+	beforeEach(async () => {
+		const network = new MemoryNetwork();
+		fake = new FakeBulb({ transport: network.transport("10.0.0.5") });
+		await fake.listen(WIZ_BULB_LISTEN_PORT);
+
+		client = new WikariClient({ transport: network.transport("10.0.0.2") });
+		// the client starts binding here, and is not ready yet
+		bulb = client.bulb("10.0.0.5");
+	});
+
+	afterEach(async () => {
+		bulb.closeConnection();
+		await fake.close();
+	});
+
+	it("iterates the updates of a bulb that was just created", async () => {
+		const updates = bulb.updates();
+		const next = updates.next();
+
+		await bulb.getPilot();
+		const { done, value } = await next;
+		assert.equal(done, false);
+		assert.equal(value?.src, "getPilot");
+		assert.equal(value?.pilot.dimming, 100);
+
+		await updates.return();
+	});
+
+	it("queues changes while the loop body runs", async () => {
+		const seen: (number | undefined)[] = [];
+		const controller = new AbortController();
+
+		const loop = (async () => {
+			for await (const { pilot } of bulb.updates(controller)) {
+				seen.push(pilot.dimming);
+				if (seen.length == 3) controller.abort();
+			}
+		})();
+
+		await bulb.getPilot();
+		await bulb.brightness(50);
+		await bulb.brightness(20);
+		await loop;
+
+		assert.deepEqual(seen, [100, 50, 20]);
+	});
+
+	it("ends the updates when the bulb is closed", async () => {
+		const next = bulb.updates().next();
+		bulb.closeConnection();
+
+		assert.equal((await next).done, true);
+	});
+
+	it("does not iterate a bulb that is already closed", async () => {
+		bulb.closeConnection();
+		assert.equal((await bulb.updates().next()).done, true);
+	});
+
+	it("removes listeners with the returned disposer", async () => {
+		const srcs: string[] = [];
+		const dispose = bulb.on("state-change", change => srcs.push(change.src));
+
+		await bulb.getPilot();
+		dispose();
+		await bulb.brightness(50);
+
+		assert.deepEqual(srcs, ["getPilot"]);
+	});
+});
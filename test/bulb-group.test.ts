@@ -0,0 +1,154 @@
+import assert from "assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { Bulb } from "../src/bulb";
+import { BulbGroup } from "../src/bulb-group";
+import { WikariClient } from "../src/client";
+import { WIZ_BULB_LISTEN_PORT } from "../src/constants";
+import { FakeBulb } from "../src/fake-bulb";
+import { MemoryNetwork } from "../src/memory-transport";
+import { ErrorMode } from "../src/result";
+import { WikariError, WikariErrorCode } from "../src/wikari-error";
+
+const HOSTS = ["10.0.0.5", "10.0.0.6", "10.0.0.7"];
+
+describe("BulbGroup", () => {
+	let network: MemoryNetwork;
+	let fakes: FakeBulb[];
+
+	const setUp = async (errors: ErrorMode) => {
+		const client = new WikariClient({
+			transport: network.transport("10.0.0.2"),
+			errors,
+		});
+		const bulbs = HOSTS.map(host => client.bulb(host, { responseTimeout: 50 }));
+		await client.open();
+		return new BulbGroup(bulbs);
+	};
+
+	const close = (group: BulbGroup<ErrorMode>) =>
+		group.bulbs.forEach(bulb => bulb.closeConnection());
+
+	beforeEach(async () => {
+		network = new MemoryNetwork();
+		fakes = [];
+		for (const host of HOSTS) {
+			const fake = new FakeBulb({ transport: network.transport(host) });
+			await fake.listen(WIZ_BULB_LISTEN_PORT);
+			fakes.push(fake);
+		}
+	});
+
+	afterEach(async () => {
+		for (const fake of fakes) await fake.close();
+	});
+
+	it("keeps track of its members", async () => {
+		const group = await setUp("throw");
+		const [first] = group.bulbs;
+
+		group.remove(first);
+		assert.equal(group.size, 2);
+		assert.equal(group.has(first), false);
+		group.add(first, first);
+		assert.equal(group.size, 3);
+
+		close(group);
+	});
+
+	it("updates every bulb", async () => {
+		const group = await setUp("throw");
+		const results = await group.brightness(30);
+
+		assert.equal(results.size, 3);
+		assert.ok([...results.values()].every(r => !(r instanceof WikariError)));
+		assert.deepEqual(
+			fakes.map(fake => fake.pilot.dimming),
+			[30, 30, 30],
+		);
+
+		close(group);
+	});
+
+	it("updates the others when a bulb fails", async () => {
+		const group = await setUp("throw");
+		fakes[1].faults.packetLoss = 1;
+
+		const results = await group.turn(false);
+		const [first, second, third] = group.bulbs;
+
+		assert.equal(
+			(results.get(second) as WikariError).code,
+			WikariErrorCode.RequestTimedOut,
+		);
+		assert.ok(!(results.get(first) instanceof WikariError));
+		assert.ok(!(results.get(third) instanceof WikariError));
+		assert.equal(fakes[0].pilot.state, false);
+		assert.equal(fakes[2].pilot.state, false);
+
+		close(group);
+	});
+
+	it("collects the errors of bulbs in the result mode", async () => {
+		const group = await setUp("result");
+		const results = await group.brightness(200);
+
+		for (const result of results.values())
+			assert.equal(
+				(result as WikariError).code,
+				WikariErrorCode.ArgumentOutOfRange,
+			);
+
+		close(group);
+	});
+
+	it("toggles the group as a whole", async () => {
+		const group = await setUp("throw");
+
+		// most of the bulbs are on, so all of them are turned off
+		fakes[0].setPilot({ state: false });
+		await group.toggle();
+		assert.deepEqual(
+			fakes.map(fake => fake.pilot.state),
+			[false, false, false],
+		);
+
+		// and the other way around
+		fakes[0].setPilot({ state: true });
+		await group.toggle();
+		assert.deepEqual(
+			fakes.map(fake => fake.pilot.state),
+			[true, true, true],
+		);
+
+		close(group);
+	});
+
+	it("does not toggle when no bulb responds", async () => {
+		const group = await setUp("throw");
+		for (const fake of fakes) fake.faults.packetLoss = 1;
+
+		const results = await group.toggle();
+		assert.ok([...results.values()].every(r => r instanceof WikariError));
+
+		for (const fake of fakes) fake.faults.packetLoss = 0;
+		assert.deepEqual(
+			fakes.map(fake => fake.pilot.state),
+			[true, true, true],
+		);
+
+		close(group);
+	});
+
+	it("rethrows errors that are not WikariErrors", async () => {
+		const group = await setUp("throw");
+
+		await assert.rejects(
+			group.run(async (bulb: Bulb<ErrorMode>) => {
+				throw new TypeError(bulb.address);
+			}),
+			TypeError,
+		);
+
+		close(group);
+	});
+});
@@ -0,0 +1,143 @@
+import assert from "assert/strict";
+import fs from "fs/promises";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import os from "os";
+import path from "path";
+import { BulbRegistry } from "../src/bulb-registry";
+import { WikariClient } from "../src/client";
+import { WIZ_BULB_LISTEN_PORT } from "../src/constants";
+import { FakeBulb } from "../src/fake-bulb";
+import { MemoryNetwork } from "../src/memory-transport";
+import { WikariErrorCode } from "../src/wikari-error";
+
+const MAC = "a8bb50d46a1c";
+
+describe("BulbRegistry", () => {
+	let dir: string;
+	let network: MemoryNetwork;
+	let fake: FakeBulb;
+	let client: WikariClient;
+	let registry: BulbRegistry;
+
+	beforeEach(async () => {
+		dir = await fs.mkdtemp(path.join(os.tmpdir(), "wikari-"));
+
+		network = new MemoryNetwork();
+		fake = new FakeBulb({ mac: MAC, transport: network.transport("10.0.0.5") });
+		await fake.listen(WIZ_BULB_LISTEN_PORT);
+
+		client = new WikariClient({ transport: network.transport("10.0.0.2") });
+		registry = new BulbRegistry({
+			discover: {
+				addr: "10.0.0.255",
+				waitMs: 50,
+				client,
+				transport: network.transport("10.0.0.3"),
+			},
+		});
+	});
+
+	afterEach(async () => {
+		for (const { mac } of registry.list()) registry.remove(mac);
+		await fake.close();
+		await fs.rm(dir, { recursive: true, force: true });
+	});
+
+	it("looks up entries by name or MAC address in any format", () => {
+		registry.set({
+			mac: "A8:BB:50:D4:6A:1C",
+			address: "10.0.0.5",
+			name: "desk",
+		});
+
+		assert.deepEqual(registry.get("desk"), {
+			mac: MAC,
+			address: "10.0.0.5",
+			name: "desk",
+		});
+		assert.equal(registry.get("a8-bb-50-d4-6a-1c")?.name, "desk");
+		assert.equal(registry.get("nobody"), undefined);
+	});
+
+	it("updates and removes entries", () => {
+		registry.set({ mac: MAC, address: "10.0.0.5", name: "desk" });
+
+		assert.equal(registry.update("desk", { room: "office" }), true);
+		assert.equal(registry.get(MAC)?.room, "office");
+		assert.equal(registry.update("nobody", { room: "office" }), false);
+
+		assert.equal(registry.remove("desk"), true);
+		assert.equal(registry.remove("desk"), false);
+		assert.deepEqual(registry.list(), []);
+	});
+
+	it("hands out one bulb per entry, and closes it on removal", () => {
+		registry.set({ mac: MAC, address: "10.0.0.5", room: "office" });
+
+		const bulb = registry.bulb(MAC);
+		assert.equal(registry.bulb("A8:BB:50:D4:6A:1C"), bulb);
+		assert.deepEqual(registry.room("office"), [bulb]);
+		assert.equal(client.refs, 1);
+
+		registry.update(MAC, { address: "10.0.0.6" });
+		assert.equal(bulb?.address, "10.0.0.6");
+
+		registry.remove(MAC);
+		assert.equal(client.refs, 0);
+	});
+
+	it("is saved to and loaded from a file", async () => {
+		const file = path.join(dir, "bulbs.json");
+		registry.set({ mac: MAC, address: "10.0.0.5", name: "desk" });
+		await registry.save(file);
+
+		const loaded = await BulbRegistry.load(file);
+		assert.equal(loaded.path, file);
+		assert.deepEqual(loaded.list(), registry.list());
+	});
+
+	it("starts empty when the file does not exist", async () => {
+		const file = path.join(dir, "missing.json");
+		const loaded = await BulbRegistry.load(file);
+
+		assert.deepEqual(loaded.list(), []);
+		assert.equal(loaded.path, file);
+	});
+
+	it("rejects invalid files and missing paths", async () => {
+		const file = path.join(dir, "bulbs.json");
+		for (const contents of [
+			"{",
+			'{"version":2,"bulbs":[]}',
+			'{"version":1,"bulbs":[{"mac":1}]}',
+		]) {
+			await fs.writeFile(file, contents);
+			await assert.rejects(BulbRegistry.load(file), {
+				code: WikariErrorCode.InvalidArgument,
+			});
+		}
+
+		await assert.rejects(registry.save(), {
+			code: WikariErrorCode.InvalidArgument,
+		});
+	});
+
+	it("adds bulbs from discovery, keeping names", async () => {
+		registry.set({ mac: MAC, address: "10.0.0.9", name: "desk" });
+
+		const found = await registry.addFromDiscovery();
+		assert.deepEqual(found, [{ mac: MAC, address: "10.0.0.5", name: "desk" }]);
+	});
+
+	it("finds the new address of a bulb when a request times out", async () => {
+		registry.set({ mac: MAC, address: "10.0.0.9" });
+		const bulb = registry.bulb(MAC);
+		assert.ok(bulb);
+		bulb.responseTimeout = 20;
+		await client.open();
+
+		assert.equal((await bulb.getPilot()).result.mac, MAC);
+		assert.equal(bulb.address, "10.0.0.5");
+		assert.equal(registry.get(MAC)?.address, "10.0.0.5");
+	});
+});
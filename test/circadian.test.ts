@@ -0,0 +1,190 @@
+import assert from "assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { Bulb } from "../src/bulb";
+import { CircadianController, getCircadianTarget } from "../src/circadian";
+import { WikariClient } from "../src/client";
+import { WIZ_BULB_LISTEN_PORT } from "../src/constants";
+import { FakeBulb } from "../src/fake-bulb";
+import { MemoryNetwork } from "../src/memory-transport";
+
+const BERLIN = [52.52, 13.405] as const;
+// the target does not change over the day, so it is known in advance
+const FLAT_CURVE = {
+	kelvin: { min: 4000, max: 4000 },
+	brightness: { min: 60, max: 60 },
+};
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe("getCircadianTarget", () => {
+	const curve = {
+		kelvin: { min: 2000, max: 6000 },
+		brightness: { min: 20, max: 100 },
+	};
+
+	it("stays at the minimum during the night", () => {
+		assert.deepEqual(
+			getCircadianTarget(new Date("2024-06-21T23:00:00Z"), ...BERLIN, curve),
+			{ kelvin: 2000, brightness: 20 },
+		);
+	});
+
+	it("peaks at solar noon", () => {
+		const target = getCircadianTarget(
+			new Date("2024-06-21T11:09:00Z"),
+			...BERLIN,
+			curve,
+		);
+		assert.ok(target.kelvin > 5990);
+		assert.ok(target.brightness > 99);
+	});
+
+	it("is in between in the morning", () => {
+		const { kelvin } = getCircadianTarget(
+			new Date("2024-06-21T06:00:00Z"),
+			...BERLIN,
+			curve,
+		);
+		assert.ok(kelvin > 2000 && kelvin < 6000);
+	});
+});
+
+describe("CircadianController", () => {
+	let network: MemoryNetwork;
+	let fake: FakeBulb;
+	let client: WikariClient;
+	let bulb: Bulb;
+	let controller: CircadianController;
+	// the pilots the controller sent
+	let sent: Record<string, unknown>[];
+
+	const start = async (options: { kelvinRange?: [number, number] } = {}) => {
+		if (options.kelvinRange) {
+			const [min, max] = options.kelvinRange;
+			const capabilities = await bulb.detectCapabilities();
+			bulb.capabilities = { ...capabilities, kelvinRange: { min, max } };
+		}
+
+		controller = new CircadianController(bulb, {
+			latitude: BERLIN[0],
+			longitude: BERLIN[1],
+			curve: FLAT_CURVE,
+			intervalMs: 60_000,
+		});
+		controller.start();
+		await controller.update();
+	};
+
+	beforeEach(async () => {
+		network = new MemoryNetwork();
+		fake = new FakeBulb({ transport: network.transport("10.0.0.5") });
+		await fake.listen(WIZ_BULB_LISTEN_PORT);
+
+		sent = [];
+		fake.transport.on("message", (data, peer) => {
+			const message = JSON.parse(data.toString());
+			if (message.method == "setPilot" && peer.address == "10.0.0.2")
+				sent.push(message.params);
+		});
+
+		client = new WikariClient({
+			transport: network.transport("10.0.0.2"),
+			address: "10.0.0.2",
+		});
+		bulb = client.bulb("10.0.0.5");
+		await client.open();
+		await bulb.subscribe();
+	});
+
+	afterEach(async () => {
+		controller.stop();
+		bulb.closeConnection();
+		await fake.close();
+	});
+
+	it("applies the temperature and brightness in one request", async () => {
+		await start();
+
+		assert.deepEqual(sent, [{ temp: 4000, dimming: 60 }]);
+		assert.equal(fake.pilot.temp, 4000);
+		assert.equal(fake.pilot.dimming, 60);
+	});
+
+	it("does not send the same target again", async () => {
+		await start();
+		await controller.update();
+
+		assert.equal(sent.length, 1);
+	});
+
+	it("does not send a clamped temperature again", async () => {
+		await start({ kelvinRange: [2200, 3000] });
+		await controller.update();
+
+		assert.deepEqual(sent, [{ temp: 3000, dimming: 60 }]);
+	});
+
+	it("ignores its own changes and heartbeats", async () => {
+		await start();
+		fake.sync("hb");
+		await tick();
+
+		assert.equal(controller.isOverridden(bulb), false);
+	});
+
+	it("ignores values the bulb rounded", async () => {
+		await start();
+		fake.setPilot({ temp: 4020, dimming: 61 });
+		await tick();
+
+		assert.equal(controller.isOverridden(bulb), false);
+	});
+
+	it("backs off when the bulb is changed in the app", async () => {
+		const overrides: string[] = [];
+		await start();
+		controller.on("override", (_, msg) => overrides.push(msg.params.src ?? ""));
+
+		fake.setPilot({ sceneId: 4 });
+		await tick();
+
+		assert.deepEqual(overrides, ["app"]);
+		assert.equal(controller.isOverridden(bulb), true);
+
+		// and leaves the bulb alone until it is reset
+		await controller.update();
+		assert.equal(sent.length, 1);
+
+		controller.reset();
+		await controller.update();
+		assert.equal(sent.length, 2);
+		assert.equal(controller.isOverridden(bulb), false);
+	});
+
+	it("backs off when another controller changes the bulb", async () => {
+		await start();
+
+		const other = new WikariClient({
+			transport: network.transport("10.0.0.3"),
+		});
+		const remote = other.bulb("10.0.0.5");
+		await other.open();
+		await remote.brightness(20);
+		await tick();
+		remote.closeConnection();
+
+		assert.equal(controller.isOverridden(bulb), true);
+	});
+
+	it("does not turn bulbs back on", async () => {
+		await start();
+		fake.setPilot({ state: false });
+		await tick();
+
+		controller.reset();
+		await controller.update();
+
+		assert.equal(sent.length, 1);
+		assert.equal(fake.pilot.state, false);
+	});
+});
@@ -0,0 +1,79 @@
+import assert from "assert/strict";
+import { execFile } from "child_process";
+import { describe, it } from "node:test";
+import path from "path";
+import { WikariErrorCode } from "../src/wikari-error";
+
+const CLI = path.join(__dirname, "../src/cli.js");
+
+// runs the CLI without the environment variables it reads
+const run = (...args: string[]) =>
+	new Promise<{ code: number; stdout: string; stderr: string }>(resolve => {
+		const env = { ...process.env };
+		delete env.WIKARI_BULB;
+		delete env.WIKARI_REGISTRY;
+
+		execFile(
+			process.execPath,
+			[CLI, ...args],
+			{ env, timeout: 10_000 },
+			(error, stdout, stderr) =>
+				resolve({ code: error ? (error.code as number) : 0, stdout, stderr }),
+		);
+	});
+
+describe("cli", () => {
+	it("prints the usage", async () => {
+		const { code, stdout } = await run("--help");
+
+		assert.equal(code, 0);
+		assert.match(stdout, /^Usage: wikari <command>/);
+	});
+
+	it("exits with 2 on usage errors", async () => {
+		for (const args of [["frobnicate"], ["--nope"], ["status"]]) {
+			const { code, stderr } = await run(...args);
+
+			assert.equal(code, 2, args.join(" "));
+			assert.match(stderr, /Run 'wikari --help' for usage/);
+		}
+	});
+
+	it("exits with the offset error code on errors", async () => {
+		const { code, stderr } = await run(
+			"status",
+			"-b",
+			"127.0.0.1",
+			"--timeout",
+			"soon",
+		);
+
+		assert.equal(code, 10 + WikariErrorCode.InvalidArgument);
+		assert.equal(stderr, "wikari: 'timeout' must be a number, got 'soon'\n");
+	});
+
+	it("prints errors as JSON with --json", async () => {
+		const { code, stderr } = await run(
+			"status",
+			"-b",
+			"127.0.0.1",
+			"--timeout",
+			"soon",
+			"-j",
+		);
+
+		assert.equal(code, 10 + WikariErrorCode.InvalidArgument);
+		assert.deepEqual(JSON.parse(stderr), {
+			error: {
+				code: WikariErrorCode.InvalidArgument,
+				message: "'timeout' must be a number, got 'soon'",
+			},
+		});
+	});
+
+	it("does not take positional arguments for the JSON flag", async () => {
+		const { stderr } = await run("raw", "-b", "127.0.0.1", "--", "--json");
+
+		assert.equal(stderr, "wikari: The message must be valid JSON\n");
+	});
+});
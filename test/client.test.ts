@@ -0,0 +1,109 @@
+import assert from "assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { WikariState } from "../src/bulb";
+import { WikariClient } from "../src/client";
+import { WIZ_BULB_LISTEN_PORT } from "../src/constants";
+import { FakeBulb } from "../src/fake-bulb";
+import { MemoryNetwork } from "../src/memory-transport";
+import { WikariErrorCode } from "../src/wikari-error";
+
+describe("WikariClient", () => {
+	let network: MemoryNetwork;
+	let client: WikariClient;
+
+	beforeEach(() => {
+		network = new MemoryNetwork();
+		client = new WikariClient({ transport: network.transport("10.0.0.2") });
+	});
+
+	it("is opened by the first bulb and closed once every bulb is done", async () => {
+		assert.equal(client.state, WikariState.IDLE);
+
+		const first = client.bulb("10.0.0.5");
+		const second = client.bulb("10.0.0.6");
+		assert.equal(client.refs, 2);
+		assert.equal(client.state, WikariState.BINDING);
+
+		await client.open();
+		assert.equal(client.state, WikariState.READY);
+
+		first.closeConnection();
+		// closing twice does not remove another user
+		first.closeConnection();
+		assert.equal(client.refs, 1);
+		assert.equal(client.state, WikariState.READY);
+
+		second.closeConnection();
+		assert.equal(client.refs, 0);
+		assert.equal(client.state, WikariState.CLOSED);
+	});
+
+	it("does not go below zero users", () => {
+		client.unref();
+		assert.equal(client.refs, 0);
+		assert.equal(client.state, WikariState.IDLE);
+	});
+
+	it("can be closed and opened again", async () => {
+		const fake = new FakeBulb({ transport: network.transport("10.0.0.5") });
+		await fake.listen(WIZ_BULB_LISTEN_PORT);
+
+		const bulb = client.bulb("10.0.0.5");
+		await client.open();
+		assert.equal((await bulb.getPilot()).result.dimming, 100);
+
+		client.close();
+		assert.equal(client.state, WikariState.CLOSED);
+		// the bulb still uses the client
+		assert.equal(client.refs, 1);
+
+		await client.open();
+		assert.equal(client.state, WikariState.READY);
+		fake.setPilot({ dimming: 40 });
+		assert.equal((await bulb.getPilot()).result.dimming, 40);
+
+		bulb.closeConnection();
+		await fake.close();
+	});
+
+	it("rejects requests in flight when closed", async () => {
+		await client.open();
+
+		// nothing answers on this address
+		const request = client.request(
+			{ method: "getPilot", params: {} },
+			"10.0.0.9",
+			WIZ_BULB_LISTEN_PORT,
+			1000,
+		);
+		assert.equal(client.inFlight, 1);
+		client.close();
+
+		await assert.rejects(request, { code: WikariErrorCode.InvalidBulbState });
+	});
+
+	it("rejects opening when it's closed while binding", async () => {
+		const states: WikariState[] = [];
+		client.on("state-change", state => states.push(state));
+
+		const opening = client.open();
+		client.close();
+
+		await assert.rejects(opening, { code: WikariErrorCode.InvalidBulbState });
+		assert.deepEqual(states, [WikariState.BINDING, WikariState.CLOSED]);
+	});
+
+	it("reports a port that is already in use", async () => {
+		await client.open();
+
+		const other = new WikariClient({
+			transport: network.transport("10.0.0.2"),
+		});
+		await assert.rejects(other.open(), {
+			code: WikariErrorCode.SocketBindFailed,
+		});
+		assert.equal(other.state, WikariState.CLOSED);
+
+		client.close();
+	});
+});
@@ -0,0 +1,128 @@
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+import {
+	hsvToRgb,
+	kelvinToRgbcw,
+	parseColor,
+	rgbToHex,
+	rgbToHsv,
+	toPerceptualRgbcw,
+	toRgbcw,
+} from "../src/color";
+import { WikariErrorCode } from "../src/wikari-error";
+
+const TOMATO = { r: 255, g: 99, b: 71 };
+
+describe("parseColor", () => {
+	it("parses hex codes", () => {
+		assert.deepEqual(parseColor("#ff6347"), TOMATO);
+		assert.deepEqual(parseColor("#F43"), { r: 255, g: 68, b: 51 });
+	});
+
+	it("parses CSS color names in any case", () => {
+		assert.deepEqual(parseColor("tomato"), TOMATO);
+		assert.deepEqual(parseColor(" Tomato "), TOMATO);
+	});
+
+	it("parses rgb() in both syntaxes", () => {
+		assert.deepEqual(parseColor("rgb(255, 99, 71)"), TOMATO);
+		assert.deepEqual(parseColor("rgb(255 99 71 / 50%)"), TOMATO);
+		assert.deepEqual(parseColor("RGBA(100%, 0%, 0%, 0.5)"), {
+			r: 255,
+			g: 0,
+			b: 0,
+		});
+	});
+
+	it("clamps rgb() values like CSS does", () => {
+		assert.deepEqual(parseColor("rgb(300, -20, 71)"), { r: 255, g: 0, b: 71 });
+	});
+
+	it("parses hsl()", () => {
+		assert.deepEqual(parseColor("hsl(0, 100%, 50%)"), { r: 255, g: 0, b: 0 });
+		assert.deepEqual(parseColor("hsl(120deg 100% 25%)"), {
+			r: 0,
+			g: 128,
+			b: 0,
+		});
+	});
+
+	it("rejects strings that are not colors", () => {
+		for (const color of [
+			"",
+			"#12345",
+			"notacolor",
+			"rgb(1, 2)",
+			"rgb(a, b, c)",
+			"hsl(0, 100%)",
+			// inherited from Object.prototype, rather than color names
+			"constructor",
+			"toString",
+			"__proto__",
+		])
+			assert.throws(() => parseColor(color), {
+				code: WikariErrorCode.InvalidArgument,
+			});
+	});
+});
+
+describe("color conversions", () => {
+	it("converts between rgb, hsv and hex", () => {
+		assert.deepEqual(hsvToRgb({ h: 240, s: 100, v: 100 }), {
+			r: 0,
+			g: 0,
+			b: 255,
+		});
+		assert.deepEqual(hsvToRgb(rgbToHsv(TOMATO)), TOMATO);
+		assert.equal(rgbToHex(TOMATO), "#ff6347");
+	});
+
+	it("mixes white from the cool and warm LEDs", () => {
+		assert.deepEqual(kelvinToRgbcw(2700), { c: 0, w: 255 });
+		assert.deepEqual(kelvinToRgbcw(6500), { c: 255, w: 0 });
+		// clamped to the range
+		assert.deepEqual(kelvinToRgbcw(10_000), { c: 255, w: 0 });
+
+		const { c, w } = kelvinToRgbcw(4000);
+		assert.ok(c > 0 && w > 0);
+	});
+
+	it("moves the white part of a color to the white LEDs", () => {
+		assert.deepEqual(toPerceptualRgbcw({ r: 255, g: 255, b: 255 }), {
+			c: 128,
+			w: 127,
+		});
+		// only the color that is left decides the white balance
+		const pink = toPerceptualRgbcw({ r: 255, g: 200, b: 200 });
+		assert.deepEqual(
+			{ r: pink.r, g: pink.g, b: pink.b },
+			{
+				r: 55,
+				g: undefined,
+				b: undefined,
+			},
+		);
+		assert.ok((pink.w as number) > (pink.c as number));
+
+		assert.deepEqual(toPerceptualRgbcw({ r: 0, g: 0, b: 0 }), {
+			r: 0,
+			g: 0,
+			b: 0,
+		});
+	});
+
+	it("checks the range of color objects", () => {
+		assert.throws(() => toRgbcw({ r: 256, g: 0, b: 0 }), {
+			code: WikariErrorCode.ArgumentOutOfRange,
+		});
+		assert.throws(() => toRgbcw({ h: 0, s: 101, v: 50 }), {
+			code: WikariErrorCode.ArgumentOutOfRange,
+		});
+		assert.deepEqual(toRgbcw("tomato", { perceptual: true }), {
+			r: 184,
+			g: 28,
+			c: 10,
+			w: 61,
+		});
+	});
+});
@@ -0,0 +1,102 @@
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+import { nextCronOccurrence, parseCron } from "../src/cron";
+import { WikariErrorCode } from "../src/wikari-error";
+
+const next = (expression: string, after: string, timeZone = "UTC") =>
+	nextCronOccurrence(
+		parseCron(expression),
+		new Date(after),
+		timeZone,
+	)?.toISOString();
+
+describe("parseCron", () => {
+	it("parses lists, ranges, steps and names", () => {
+		const schedule = parseCron("0,30 */6 1-3 jan-mar mon,fri");
+
+		assert.deepEqual(schedule.minutes, [0, 30]);
+		assert.deepEqual(schedule.hours, [0, 6, 12, 18]);
+		assert.deepEqual(schedule.days, [1, 2, 3]);
+		assert.deepEqual(schedule.months, [1, 2, 3]);
+		assert.deepEqual(schedule.weekdays, [1, 5]);
+		assert.equal(schedule.daysRestricted, true);
+		assert.equal(schedule.weekdaysRestricted, true);
+	});
+
+	it("treats 7 as sunday", () => {
+		assert.deepEqual(parseCron("0 0 * * 7").weekdays, [0]);
+		assert.deepEqual(parseCron("0 0 * * 5-7").weekdays, [0, 5, 6]);
+	});
+
+	it("expands macros", () => {
+		assert.deepEqual(parseCron("@daily"), parseCron("0 0 * * *"));
+		assert.deepEqual(parseCron("@weekly"), parseCron("0 0 * * 0"));
+	});
+
+	it("rejects invalid expressions", () => {
+		for (const expression of [
+			"* * * *",
+			"60 * * * *",
+			"* 24 * * *",
+			"* * 0 * *",
+			"* * * foo *",
+			"*/0 * * * *",
+		])
+			assert.throws(() => parseCron(expression), {
+				code: WikariErrorCode.InvalidArgument,
+			});
+	});
+});
+
+describe("nextCronOccurrence", () => {
+	it("finds the next matching minute", () => {
+		assert.equal(
+			next("*/15 * * * *", "2024-07-15T10:07:30Z"),
+			"2024-07-15T10:15:00.000Z",
+		);
+		assert.equal(
+			next("@hourly", "2024-07-15T10:00:00Z"),
+			"2024-07-15T11:00:00.000Z",
+		);
+	});
+
+	it("skips days of the week that do not match", () => {
+		// the 1st is a saturday
+		assert.equal(
+			next("30 8 * * mon-fri", "2024-06-01T12:00:00Z"),
+			"2024-06-03T08:30:00.000Z",
+		);
+	});
+
+	it("matches either the day of month or the day of week when both are set", () => {
+		// the 6th is a friday, before the 13th
+		assert.equal(
+			next("0 0 13 * fri", "2024-09-01T00:00:00Z"),
+			"2024-09-06T00:00:00.000Z",
+		);
+	});
+
+	it("requires both days to match when the day of month is a step of *", () => {
+		// mondays on odd days, the 8th is an even one
+		assert.equal(parseCron("0 0 */2 * mon").daysRestricted, false);
+		assert.equal(
+			next("0 0 */2 * mon", "2024-07-02T00:00:00Z"),
+			"2024-07-15T00:00:00.000Z",
+		);
+	});
+
+	it("follows the time zone, including daylight saving time", () => {
+		assert.equal(
+			next("0 9 * * *", "2024-01-15T00:00:00Z", "Europe/Berlin"),
+			"2024-01-15T08:00:00.000Z",
+		);
+		assert.equal(
+			next("0 9 * * *", "2024-07-15T00:00:00Z", "Europe/Berlin"),
+			"2024-07-15T07:00:00.000Z",
+		);
+	});
+
+	it("returns undefined for dates that never happen", () => {
+		assert.equal(next("0 0 30 2 *", "2024-01-01T00:00:00Z"), undefined);
+	});
+});
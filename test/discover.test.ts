@@ -0,0 +1,84 @@
+import assert from "assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { WikariClient } from "../src/client";
+import { WIZ_BULB_LISTEN_PORT } from "../src/constants";
+import { discover, probe } from "../src/discover";
+import { FakeBulb } from "../src/fake-bulb";
+import { MemoryNetwork } from "../src/memory-transport";
+
+describe("discover", () => {
+	let network: MemoryNetwork;
+	let fakes: FakeBulb[];
+
+	const addFake = async (host: string, mac: string) => {
+		const fake = new FakeBulb({ mac, transport: network.transport(host) });
+		await fake.listen(WIZ_BULB_LISTEN_PORT);
+		fakes.push(fake);
+	};
+
+	const options = () => ({
+		addr: "10.0.0.255",
+		waitMs: 50,
+		transport: network.transport("10.0.0.2"),
+	});
+
+	beforeEach(async () => {
+		network = new MemoryNetwork();
+		fakes = [];
+		await addFake("10.0.0.5", "a8bb50d46a1c");
+		await addFake("10.0.0.6", "a8bb50d46a1d");
+	});
+
+	afterEach(async () => {
+		for (const fake of fakes) await fake.close();
+	});
+
+	it("finds the bulbs that respond to a broadcast", async () => {
+		const results = await probe(options());
+
+		assert.deepEqual(
+			[...results.values()].map(({ mac, address }) => [mac, address]),
+			[
+				["a8bb50d46a1c", "10.0.0.5"],
+				["a8bb50d46a1d", "10.0.0.6"],
+			],
+		);
+		assert.equal(results.get("a8bb50d46a1c")?.response.result.state, true);
+	});
+
+	it("creates bulbs that use the given client", async () => {
+		const client = new WikariClient({
+			transport: network.transport("10.0.0.3"),
+		});
+		const bulbs = await discover({ ...options(), client });
+
+		assert.deepEqual(
+			bulbs.map(bulb => bulb.address),
+			["10.0.0.5", "10.0.0.6"],
+		);
+		assert.ok(bulbs.every(bulb => bulb.client == client));
+
+		await client.open();
+		assert.equal((await bulbs[0].getPilot()).result.mac, "a8bb50d46a1c");
+		for (const bulb of bulbs) bulb.closeConnection();
+	});
+
+	it("only returns a bulb once", async () => {
+		// the same bulb, reachable from a second address
+		await addFake("10.0.0.7", "a8bb50d46a1c");
+
+		assert.equal((await probe(options())).size, 2);
+	});
+
+	it("ignores responses that are not from bulbs", async () => {
+		const other = network.transport("10.0.0.8");
+		await other.bind(WIZ_BULB_LISTEN_PORT);
+		other.on("message", (data, peer) => {
+			for (const response of ["nonsense", '{"result":{}}'])
+				other.send(response, peer.port, peer.address);
+		});
+
+		assert.equal((await probe(options())).size, 2);
+		await other.close();
+	});
+});
@@ -0,0 +1,98 @@
+import assert from "assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { Bulb } from "../src/bulb";
+import { WikariClient } from "../src/client";
+import { WIZ_BULB_LISTEN_PORT } from "../src/constants";
+import { DiscoveryService } from "../src/discovery-service";
+import { FakeBulb } from "../src/fake-bulb";
+import { MemoryNetwork } from "../src/memory-transport";
+
+const MAC = "a8bb50d46a1c";
+
+describe("DiscoveryService", () => {
+	let network: MemoryNetwork;
+	let fake: FakeBulb;
+	let client: WikariClient;
+	let service: DiscoveryService;
+	let events: string[];
+
+	beforeEach(async () => {
+		network = new MemoryNetwork();
+		fake = new FakeBulb({ mac: MAC, transport: network.transport("10.0.0.5") });
+		await fake.listen(WIZ_BULB_LISTEN_PORT);
+
+		client = new WikariClient({ transport: network.transport("10.0.0.2") });
+		service = new DiscoveryService({
+			addr: "10.0.0.255",
+			waitMs: 50,
+			lostAfter: 2,
+			client,
+			transport: network.transport("10.0.0.3"),
+		});
+
+		events = [];
+		service.on("bulb-found", (bulb, mac) => events.push(`found ${mac}`));
+		service.on("bulb-lost", (bulb, mac) => events.push(`lost ${mac}`));
+		service.on("bulb-address-changed", (bulb, mac, previous) =>
+			events.push(`moved ${mac} from ${previous} to ${bulb.address}`),
+		);
+	});
+
+	afterEach(async () => {
+		service.close();
+		await fake.close();
+	});
+
+	it("finds bulbs", async () => {
+		await service.refresh();
+
+		assert.deepEqual(events, [`found ${MAC}`]);
+		const bulb = service.bulbs.get(MAC) as Bulb;
+		assert.equal(bulb.address, "10.0.0.5");
+		assert.equal(bulb.client, client);
+	});
+
+	it("keeps the instance of a bulb that gets a new address", async () => {
+		await service.refresh();
+		const bulb = service.bulbs.get(MAC);
+
+		await fake.close();
+		fake = new FakeBulb({ mac: MAC, transport: network.transport("10.0.0.6") });
+		await fake.listen(WIZ_BULB_LISTEN_PORT);
+		await service.refresh();
+
+		assert.deepEqual(events, [
+			`found ${MAC}`,
+			`moved ${MAC} from 10.0.0.5 to 10.0.0.6`,
+		]);
+		assert.equal(service.bulbs.get(MAC), bulb);
+	});
+
+	it("loses bulbs that miss probes and finds them again", async () => {
+		await service.refresh();
+		const bulb = service.bulbs.get(MAC) as Bulb;
+
+		fake.faults.packetLoss = 1;
+		await service.refresh();
+		assert.deepEqual(events, [`found ${MAC}`]);
+		await service.refresh();
+		assert.deepEqual(events, [`found ${MAC}`, `lost ${MAC}`]);
+		assert.equal(service.bulbs.size, 0);
+
+		// the lost bulb is still usable, and found again with its instance
+		fake.faults.packetLoss = 0;
+		await bulb.brightness(20);
+		await service.refresh();
+		assert.deepEqual(events, [`found ${MAC}`, `lost ${MAC}`, `found ${MAC}`]);
+		assert.equal(service.bulbs.get(MAC), bulb);
+	});
+
+	it("closes the connection of its bulbs when closed", async () => {
+		await service.refresh();
+		assert.equal(client.refs, 1);
+
+		service.close();
+		assert.equal(client.refs, 0);
+		assert.equal(service.bulbs.size, 0);
+	});
+});
@@ -0,0 +1,125 @@
+import assert from "assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { Bulb } from "../src/bulb";
+import { WikariClient } from "../src/client";
+import { WIZ_BULB_LISTEN_PORT } from "../src/constants";
+import { Effect, EffectMode, EffectPlayer, parseEffect } from "../src/effect";
+import { FakeBulb } from "../src/fake-bulb";
+import { MemoryNetwork } from "../src/memory-transport";
+import { WikariErrorCode } from "../src/wikari-error";
+
+// keyframes that are told apart by their dimming
+const effect = (mode: EffectMode, repeat?: number, holdMs = 0): Effect => ({
+	mode,
+	repeat,
+	keyframes: [10, 20, 30].map(dimming => ({ pilot: { dimming }, holdMs })),
+});
+
+describe("parseEffect", () => {
+	it("accepts valid effects", () => {
+		const json = JSON.stringify(effect("loop", 2));
+		assert.deepEqual(parseEffect(json), effect("loop", 2));
+		assert.deepEqual(parseEffect(JSON.parse(json)), effect("loop", 2));
+	});
+
+	it("rejects invalid effects", () => {
+		for (const json of [
+			"{",
+			{ keyframes: [] },
+			{ mode: "bounce", keyframes: [{ pilot: {} }] },
+			{ keyframes: [{ pilot: { dimming: 500 } }] },
+			{ keyframes: [{ pilot: {}, easing: "wobbly" }] },
+		])
+			assert.throws(() => parseEffect(json), {
+				code: WikariErrorCode.InvalidArgument,
+			});
+	});
+});
+
+describe("EffectPlayer", () => {
+	let fake: FakeBulb;
+	let bulb: Bulb;
+	// the dimming of every pilot sent to the bulb
+	let sent: number[];
+
+	beforeEach(async () => {
+		const network = new MemoryNetwork();
+		fake = new FakeBulb({ transport: network.transport("10.0.0.5") });
+		await fake.listen(WIZ_BULB_LISTEN_PORT);
+
+		sent = [];
+		fake.transport.on("message", data => {
+			const message = JSON.parse(data.toString());
+			if (message.method == "setPilot") sent.push(message.params.dimming);
+		});
+
+		const client = new WikariClient({
+			transport: network.transport("10.0.0.2"),
+		});
+		bulb = client.bulb("10.0.0.5");
+		await client.open();
+	});
+
+	afterEach(async () => {
+		bulb.closeConnection();
+		await fake.close();
+	});
+
+	it("plays the keyframes once", async () => {
+		const player = new EffectPlayer(effect("once"), bulb);
+		await player.play();
+
+		assert.deepEqual(sent, [10, 20, 30]);
+		assert.equal(player.state, "finished");
+		assert.equal(fake.pilot.dimming, 30);
+	});
+
+	it("loops and ping-pongs", async () => {
+		await new EffectPlayer(effect("loop", 2), bulb).play();
+		assert.deepEqual(sent, [10, 20, 30, 10, 20, 30]);
+
+		sent = [];
+		await new EffectPlayer(effect("ping-pong", 2), bulb).play();
+		assert.deepEqual(sent, [10, 20, 30, 20, 10, 20, 30, 20]);
+	});
+
+	it("never picks the same random keyframe twice in a row", async () => {
+		await new EffectPlayer(effect("random", 30), bulb).play();
+
+		assert.equal(sent.length, 30);
+		for (let i = 1; i < sent.length; i++) assert.notEqual(sent[i], sent[i - 1]);
+	});
+
+	it("pauses, resumes and stops", async () => {
+		const player = new EffectPlayer(effect("loop", undefined, 20), bulb);
+		const playing = player.play();
+		await new Promise(resolve => setTimeout(resolve, 30));
+
+		player.pause();
+		assert.equal(player.state, "paused");
+		const paused = sent.length;
+		await new Promise(resolve => setTimeout(resolve, 50));
+		assert.equal(sent.length, paused);
+
+		player.resume();
+		await new Promise(resolve => setTimeout(resolve, 50));
+		assert.ok(sent.length > paused);
+
+		player.stop();
+		await playing;
+		assert.equal(player.state, "stopped");
+	});
+
+	it("keeps playing when a bulb fails", async () => {
+		fake.faults.errorRate = 1;
+		const errors: unknown[] = [];
+
+		const player = new EffectPlayer(effect("once"), [bulb], {
+			onError: error => errors.push(error),
+		});
+		await player.play();
+
+		assert.equal(errors.length, 3);
+		assert.equal(player.state, "finished");
+	});
+});
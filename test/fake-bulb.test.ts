@@ -0,0 +1,193 @@
+import assert from "assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { WikariClient } from "../src/client";
+import { WIZ_BULB_LISTEN_PORT } from "../src/constants";
+import { FakeBulb } from "../src/fake-bulb";
+import { MemoryNetwork, MemoryTransport } from "../src/memory-transport";
+import { WikariErrorCode } from "../src/wikari-error";
+
+// matches the error of a request the bulb answered with the given error code
+const bulbError = (code: number) => (error: any) =>
+	error.code == WikariErrorCode.BulbReturnedFailure &&
+	error.data.response.error.code == code;
+
+describe("FakeBulb", () => {
+	let network: MemoryNetwork;
+	let fake: FakeBulb;
+	let client: WikariClient;
+
+	const request = (method: string, params: object = {}, timeoutMs = 1000) =>
+		client.request(
+			{ method, params },
+			"10.0.0.5",
+			WIZ_BULB_LISTEN_PORT,
+			timeoutMs,
+		) as Promise<any>;
+
+	beforeEach(async () => {
+		network = new MemoryNetwork();
+		fake = new FakeBulb({
+			mac: "a8bb50d46a1c",
+			transport: network.transport("10.0.0.5"),
+		});
+		await fake.listen(WIZ_BULB_LISTEN_PORT);
+
+		client = new WikariClient({ transport: network.transport("10.0.0.2") });
+		await client.open();
+	});
+
+	afterEach(async () => {
+		client.close();
+		await fake.close();
+	});
+
+	it("answers getPilot and getSystemConfig", async () => {
+		const pilot = await request("getPilot");
+		assert.equal(pilot.result.mac, "a8bb50d46a1c");
+		assert.equal(pilot.result.state, true);
+		assert.equal(pilot.result.dimming, 100);
+
+		const config = await request("getSystemConfig");
+		assert.equal(config.result.moduleName, "ESP01_SHRGB_03");
+		assert.equal(config.result.fwVersion, "1.25.0");
+	});
+
+	it("answers unknown methods with an error", async () => {
+		await assert.rejects(request("reboot"), bulbError(-32601));
+	});
+
+	it("rejects pilots that are out of range", async () => {
+		await assert.rejects(request("setPilot", { dimming: 140 }), {
+			code: WikariErrorCode.BulbReturnedFailure,
+		});
+		assert.equal(fake.pilot.dimming, 100);
+	});
+
+	it("merges pilots the way the firmware does", async () => {
+		await request("setPilot", { r: 255, dimming: 50 });
+		assert.deepEqual(
+			{ ...fake.pilot },
+			{ state: true, sceneId: 0, dimming: 50, r: 255, g: 0, b: 0, c: 0, w: 0 },
+		);
+
+		// a scene replaces the color, and keeps the brightness
+		await request("setPilot", { sceneId: 4 });
+		assert.deepEqual(fake.pilot, { state: true, sceneId: 4, dimming: 50 });
+
+		// turning off keeps everything else
+		await request("setPilot", { state: false });
+		assert.deepEqual(fake.pilot, { state: false, sceneId: 4, dimming: 50 });
+
+		// and changing anything else turns it on
+		await request("setPilot", { temp: 3000 });
+		assert.deepEqual(fake.pilot, {
+			state: true,
+			sceneId: 0,
+			dimming: 50,
+			temp: 3000,
+		});
+	});
+
+	describe("registration", () => {
+		let listener: MemoryTransport;
+		let received: any[];
+
+		// resolves once the bulb has answered
+		const register = async (register: boolean) => {
+			await listener.send(
+				JSON.stringify({
+					method: "registration",
+					id: 1,
+					params: { register, phoneIp: "10.0.0.3", phoneMac: "aabbccddeeff" },
+				}),
+				WIZ_BULB_LISTEN_PORT,
+				"10.0.0.5",
+			);
+			await next("registration");
+		};
+
+		// resolves with the first received message of the method, removing it
+		const next = (method: string) =>
+			new Promise<any>(resolve => {
+				const check = () => {
+					const message = received.find(m => m.method == method);
+					if (message) {
+						received.splice(received.indexOf(message), 1);
+						resolve(message);
+					} else setImmediate(check);
+				};
+				check();
+			});
+
+		const nextSync = () => next("syncPilot");
+
+		beforeEach(async () => {
+			listener = network.transport("10.0.0.3");
+			await listener.bind(0);
+			received = [];
+			listener.on("message", data =>
+				received.push(JSON.parse(data.toString())),
+			);
+		});
+
+		afterEach(() => listener.close());
+
+		it("pushes syncPilot messages to registered clients", async () => {
+			await register(true);
+			fake.setPilot({ dimming: 20 }, "app");
+
+			const sync = await nextSync();
+			assert.equal(sync.params.src, "app");
+			assert.equal(sync.params.dimming, 20);
+			assert.equal(sync.params.mac, "a8bb50d46a1c");
+		});
+
+		it("reports changes made over UDP with the udp source", async () => {
+			await register(true);
+			await request("setPilot", { dimming: 30 });
+
+			assert.equal((await nextSync()).params.src, "udp");
+		});
+
+		it("sends heartbeats every sync interval", async () => {
+			fake.syncIntervalMs = 10;
+			await register(true);
+
+			assert.equal((await nextSync()).params.src, "hb");
+		});
+
+		it("stops sending once unregistered", async () => {
+			await register(true);
+			await register(false);
+
+			fake.setPilot({ dimming: 20 });
+			await new Promise(resolve => setTimeout(resolve, 10));
+			assert.deepEqual(
+				received.filter(m => m.method == "syncPilot"),
+				[],
+			);
+		});
+	});
+
+	describe("faults", () => {
+		it("drops requests", async () => {
+			fake.faults.packetLoss = 1;
+			await assert.rejects(request("getPilot", {}, 50), {
+				code: WikariErrorCode.RequestTimedOut,
+			});
+		});
+
+		it("answers with errors", async () => {
+			fake.faults.errorRate = 1;
+			await assert.rejects(request("getPilot"), bulbError(-32603));
+		});
+
+		it("delays responses", async () => {
+			fake.faults.latencyMs = [40, 50];
+
+			const start = Date.now();
+			await request("getPilot");
+			assert.ok(Date.now() - start >= 40);
+		});
+	});
+});
@@ -0,0 +1,184 @@
+import assert from "assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { MemoryNetwork, MemoryTransport } from "../src/memory-transport";
+import { RequestMultiplexer } from "../src/request-multiplexer";
+import { TransportPeer } from "../src/transport";
+import { GenericResponse } from "../src/types";
+import { WikariErrorCode } from "../src/wikari-error";
+
+const BULB_PORT = 38899;
+
+// the responses here are made up, so they are read as they were sent
+const resultOf = async (response: Promise<GenericResponse>) =>
+	((await response) as GenericResponse & { result: Record<string, unknown> })
+		.result;
+
+describe("RequestMultiplexer", () => {
+	let network: MemoryNetwork;
+	let client: MemoryTransport;
+	let bulb: MemoryTransport;
+	let multiplexer: RequestMultiplexer;
+	// what the bulb received, and from where
+	let received: { message: any; peer: TransportPeer }[];
+
+	const reply = (message: object, to = received[0].peer, from = bulb) =>
+		from.send(JSON.stringify(message), to.port, to.address);
+
+	// resolves once the bulb has received the given number of messages
+	const receivedCount = async (count: number) => {
+		while (received.length < count)
+			await new Promise(resolve => setImmediate(resolve));
+	};
+
+	beforeEach(async () => {
+		network = new MemoryNetwork();
+		client = network.transport("10.0.0.2");
+		bulb = network.transport("10.0.0.5");
+		await client.bind(0);
+		await bulb.bind(BULB_PORT);
+
+		received = [];
+		bulb.on("message", (data, peer) =>
+			received.push({ message: JSON.parse(data.toString()), peer }),
+		);
+		multiplexer = new RequestMultiplexer(client);
+	});
+
+	it("tags requests with an id", async () => {
+		const request = multiplexer.request(
+			{ method: "getPilot", params: {} },
+			"10.0.0.5",
+			BULB_PORT,
+			1000,
+		);
+		await receivedCount(1);
+
+		const { id } = received[0].message;
+		assert.equal(typeof id, "number");
+
+		await reply({ method: "getPilot", id, result: {} });
+		assert.deepEqual(await request, { method: "getPilot", id, result: {} });
+		assert.equal(multiplexer.inFlight, 0);
+	});
+
+	it("matches responses that arrive out of order by their id", async () => {
+		const first = multiplexer.request(
+			{ method: "getPilot", params: {} },
+			"10.0.0.5",
+			BULB_PORT,
+			1000,
+		);
+		const second = multiplexer.request(
+			{ method: "getPilot", params: {} },
+			"10.0.0.5",
+			BULB_PORT,
+			1000,
+		);
+		await receivedCount(2);
+
+		const [a, b] = received.map(r => r.message.id);
+		assert.notEqual(a, b);
+
+		await reply({ method: "getPilot", id: b, result: { dimming: 2 } });
+		await reply({ method: "getPilot", id: a, result: { dimming: 1 } });
+
+		assert.equal((await resultOf(first)).dimming, 1);
+		assert.equal((await resultOf(second)).dimming, 2);
+	});
+
+	it("only accepts responses from the address and port of the request", async () => {
+		const request = multiplexer.request(
+			{ method: "getPilot", params: {} },
+			"10.0.0.5",
+			BULB_PORT,
+			1000,
+		);
+		await receivedCount(1);
+		const { id } = received[0].message;
+
+		// the same port on another host, and another port on the same host
+		const otherHost = network.transport("10.0.0.6");
+		await otherHost.bind(BULB_PORT);
+		const otherPort = network.transport("10.0.0.5");
+		await otherPort.bind(BULB_PORT + 1);
+
+		await reply(
+			{ method: "getPilot", id, result: { from: 1 } },
+			undefined,
+			otherHost,
+		);
+		await reply(
+			{ method: "getPilot", id, result: { from: 2 } },
+			undefined,
+			otherPort,
+		);
+		await reply({ method: "getPilot", id, result: { from: 3 } });
+
+		assert.equal((await resultOf(request)).from, 3);
+	});
+
+	it("resolves the oldest request with the same method when the id is not echoed", async () => {
+		const pilot = multiplexer.request(
+			{ method: "getPilot", params: {} },
+			"10.0.0.5",
+			BULB_PORT,
+			1000,
+		);
+		const config = multiplexer.request(
+			{ method: "getSystemConfig", params: {} },
+			"10.0.0.5",
+			BULB_PORT,
+			1000,
+		);
+		await receivedCount(2);
+
+		await reply({ method: "getSystemConfig", result: { mac: "a" } });
+		await reply({ method: "getPilot", result: { dimming: 5 } });
+
+		assert.equal((await resultOf(config)).mac, "a");
+		assert.equal((await resultOf(pilot)).dimming, 5);
+	});
+
+	it("rejects when the bulb returns an error", async () => {
+		const request = multiplexer.request(
+			{ method: "setPilot", params: { dimming: 500 } },
+			"10.0.0.5",
+			BULB_PORT,
+			1000,
+		);
+		await receivedCount(1);
+
+		const { id } = received[0].message;
+		await reply({ method: "setPilot", id, error: { code: -32602 } });
+
+		await assert.rejects(request, {
+			code: WikariErrorCode.BulbReturnedFailure,
+		});
+	});
+
+	it("rejects requests that time out", async () => {
+		await assert.rejects(
+			multiplexer.request(
+				{ method: "getPilot", params: {} },
+				"10.0.0.5",
+				BULB_PORT,
+				20,
+			),
+			{ code: WikariErrorCode.RequestTimedOut },
+		);
+		assert.equal(multiplexer.inFlight, 0);
+	});
+
+	it("rejects every in-flight request when closed", async () => {
+		const request = multiplexer.request(
+			{ method: "getPilot", params: {} },
+			"10.0.0.5",
+			BULB_PORT,
+			1000,
+		);
+		multiplexer.close();
+
+		await assert.rejects(request, { code: WikariErrorCode.InvalidBulbState });
+		assert.equal(multiplexer.inFlight, 0);
+	});
+});
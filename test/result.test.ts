@@ -0,0 +1,78 @@
+import assert from "assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { Bulb } from "../src/bulb";
+import { BulbRegistry } from "../src/bulb-registry";
+import { WikariClient } from "../src/client";
+import { WIZ_BULB_LISTEN_PORT } from "../src/constants";
+import { DiscoveryService } from "../src/discovery-service";
+import { FakeBulb } from "../src/fake-bulb";
+import { MemoryNetwork } from "../src/memory-transport";
+import { unwrap } from "../src/result";
+import { WikariError, WikariErrorCode } from "../src/wikari-error";
+
+describe("error modes", () => {
+	let network: MemoryNetwork;
+	let fake: FakeBulb;
+
+	beforeEach(async () => {
+		network = new MemoryNetwork();
+		fake = new FakeBulb({ transport: network.transport("10.0.0.5") });
+		await fake.listen(WIZ_BULB_LISTEN_PORT);
+	});
+
+	afterEach(() => fake.close());
+
+	it("rejects with an error in the throw mode", async () => {
+		const client = new WikariClient({
+			transport: network.transport("10.0.0.2"),
+		});
+		const bulb = client.bulb("10.0.0.5");
+		await client.open();
+
+		await assert.rejects(bulb.brightness(200), {
+			code: WikariErrorCode.ArgumentOutOfRange,
+		});
+		await bulb.brightness(40);
+		assert.equal(fake.pilot.dimming, 40);
+
+		bulb.closeConnection();
+	});
+
+	it("resolves with a result in the result mode", async () => {
+		const client = new WikariClient({
+			transport: network.transport("10.0.0.2"),
+			errors: "result",
+		});
+		const bulb = client.bulb("10.0.0.5");
+		await client.open();
+
+		const failed = await bulb.brightness(200);
+		assert.equal(failed.ok, false);
+		assert.ok(!failed.ok && failed.error instanceof WikariError);
+		assert.throws(() => unwrap(failed), {
+			code: WikariErrorCode.ArgumentOutOfRange,
+		});
+
+		assert.equal((await bulb.brightness(40)).ok, true);
+		assert.equal(fake.pilot.dimming, 40);
+
+		bulb.closeConnection();
+	});
+
+	it("requires a client to create bulbs in the result mode", () => {
+		// only type-checked, since the default client throws
+		const check = () => {
+			// @ts-expect-error the client is missing
+			new Bulb<"result">("10.0.0.5", {});
+			// @ts-expect-error the options are missing
+			new DiscoveryService<"result">();
+			// @ts-expect-error the client is missing
+			new BulbRegistry<"result">({ discover: {} });
+
+			new Bulb("10.0.0.5", {});
+			new DiscoveryService();
+			new BulbRegistry();
+		};
+		assert.equal(typeof check, "function");
+	});
+});
@@ -0,0 +1,108 @@
+import assert from "assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { Bulb } from "../src/bulb";
+import { WikariClient } from "../src/client";
+import { WIZ_BULB_LISTEN_PORT } from "../src/constants";
+import { FakeBulb } from "../src/fake-bulb";
+import { MemoryNetwork } from "../src/memory-transport";
+import { getBackoffDelay } from "../src/utils";
+import { WikariErrorCode } from "../src/wikari-error";
+
+const POLICY = {
+	attempts: 3,
+	backoffMs: 100,
+	backoffFactor: 2,
+	maxBackoffMs: 300,
+	jitter: 0,
+};
+
+describe("getBackoffDelay", () => {
+	it("grows exponentially up to the maximum", () => {
+		assert.deepEqual(
+			[0, 1, 2, 3].map(retry => getBackoffDelay(POLICY, retry)),
+			[100, 200, 300, 300],
+		);
+	});
+
+	it("takes up to the jitter off the delay", () => {
+		for (let i = 0; i < 20; i++) {
+			const delay = getBackoffDelay({ ...POLICY, jitter: 0.5 }, 1);
+			assert.ok(delay >= 100 && delay <= 200);
+		}
+	});
+});
+
+describe("retries", () => {
+	let fake: FakeBulb;
+	let bulb: Bulb;
+	// the number of requests that reached the bulb
+	let received: number;
+
+	beforeEach(async () => {
+		const network = new MemoryNetwork();
+		fake = new FakeBulb({ transport: network.transport("10.0.0.5") });
+		await fake.listen(WIZ_BULB_LISTEN_PORT);
+
+		received = 0;
+		fake.transport.on("message", () => received++);
+
+		const client = new WikariClient({
+			transport: network.transport("10.0.0.2"),
+		});
+		bulb = client.bulb("10.0.0.5", {
+			responseTimeout: 20,
+			retry: { ...POLICY, backoffMs: 1 },
+		});
+		await client.open();
+	});
+
+	afterEach(async () => {
+		bulb.closeConnection();
+		await fake.close();
+	});
+
+	it("sends a request again when it times out", async () => {
+		fake.faults.packetLoss = 1;
+		// only the first request is lost
+		const first = () => {
+			fake.faults.packetLoss = 0;
+			fake.transport.off("message", first);
+		};
+		fake.transport.on("message", first);
+
+		assert.equal((await bulb.getPilot()).result.state, true);
+		assert.equal(received, 2);
+	});
+
+	it("gives up after the last attempt, with every attempt in the error", async () => {
+		fake.faults.packetLoss = 1;
+
+		await assert.rejects(bulb.getPilot(), (error: any) => {
+			assert.equal(error.code, WikariErrorCode.RequestTimedOut);
+			assert.deepEqual(
+				error.data.attempts.map((a: { attempt: number }) => a.attempt),
+				[1, 2, 3],
+			);
+			return true;
+		});
+		assert.equal(received, 3);
+	});
+
+	it("does not retry errors the bulb answered with", async () => {
+		fake.faults.errorRate = 1;
+
+		await assert.rejects(bulb.getPilot(), {
+			code: WikariErrorCode.BulbReturnedFailure,
+		});
+		assert.equal(received, 1);
+	});
+
+	it("takes the retry policy per request", async () => {
+		fake.faults.packetLoss = 1;
+
+		await assert.rejects(bulb.getPilot({ retry: { attempts: 1 } }), {
+			code: WikariErrorCode.RequestTimedOut,
+		});
+		assert.equal(received, 1);
+	});
+});
@@ -0,0 +1,92 @@
+import assert from "assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { WikariClient } from "../src/client";
+import { WIZ_BULB_LISTEN_PORT } from "../src/constants";
+import { FakeBulb } from "../src/fake-bulb";
+import { MemoryNetwork, MemoryTransport } from "../src/memory-transport";
+import { scan, ScanProgress } from "../src/scan";
+import { WikariErrorCode } from "../src/wikari-error";
+
+describe("scan", () => {
+	let network: MemoryNetwork;
+	let fakes: FakeBulb[];
+	let transport: MemoryTransport;
+
+	beforeEach(async () => {
+		network = new MemoryNetwork();
+		fakes = [];
+		for (const [host, mac] of [
+			["10.0.0.5", "a8bb50d46a1c"],
+			["10.0.0.9", "a8bb50d46a1d"],
+		]) {
+			const fake = new FakeBulb({ mac, transport: network.transport(host) });
+			await fake.listen(WIZ_BULB_LISTEN_PORT);
+			fakes.push(fake);
+		}
+		transport = network.transport("10.0.0.2");
+	});
+
+	afterEach(async () => {
+		for (const fake of fakes) await fake.close();
+	});
+
+	it("finds the bulbs in the range", async () => {
+		const client = new WikariClient({
+			transport: network.transport("10.0.0.3"),
+		});
+		const progress: ScanProgress[] = [];
+
+		const bulbs = await scan({
+			cidr: "10.0.0.0/28",
+			waitMs: 10,
+			rate: 10_000,
+			client,
+			transport,
+			onProgress: p => progress.push(p),
+		});
+
+		assert.deepEqual(bulbs.map(bulb => bulb.address).sort(), [
+			"10.0.0.5",
+			"10.0.0.9",
+		]);
+		assert.ok(bulbs.every(bulb => bulb.client == client));
+		// the network and broadcast addresses are left out
+		assert.equal(progress.length, 14);
+		assert.deepEqual(progress[13], { scanned: 14, total: 14, found: 2 });
+
+		for (const bulb of bulbs) bulb.closeConnection();
+	});
+
+	it("rejects invalid options", async () => {
+		await assert.rejects(scan({ cidr: "10.0.0.0/33", transport }), {
+			code: WikariErrorCode.InvalidArgument,
+		});
+		await assert.rejects(scan({ cidr: "10.0.0.0/28", rate: 0, transport }), {
+			code: WikariErrorCode.InvalidArgument,
+		});
+	});
+
+	it("stops and releases the transport when onProgress throws", async () => {
+		let calls = 0;
+		await assert.rejects(
+			scan({
+				cidr: "10.0.0.0/24",
+				waitMs: 10,
+				rate: 10_000,
+				concurrency: 4,
+				transport,
+				onProgress: () => {
+					calls++;
+					throw new Error("stop");
+				},
+			}),
+			{ message: "stop" },
+		);
+
+		// only the hosts already waited on are finished
+		assert.ok(calls <= 4);
+		assert.equal(transport.listenerCount("message"), 0);
+		await transport.bind(0);
+		await transport.close();
+	});
+});
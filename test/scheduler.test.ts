@@ -0,0 +1,114 @@
+import assert from "assert/strict";
+import fs from "fs/promises";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import os from "os";
+import path from "path";
+import { ScheduleContext, Scheduler } from "../src/scheduler";
+
+describe("Scheduler", () => {
+	let dir: string;
+	let statePath: string;
+	let scheduler: Scheduler;
+
+	const lastRun = (id: string, ago: number) =>
+		fs.writeFile(
+			statePath,
+			JSON.stringify({ [id]: new Date(Date.now() - ago).toISOString() }),
+		);
+
+	// starts the scheduler with an entry and returns the runs caught up on
+	const catchUp = async (
+		catchUp: "skip" | "latest" | "all",
+		cron = "* * * * *",
+	) => {
+		const runs: ScheduleContext[] = [];
+		scheduler = new Scheduler({ timeZone: "UTC", statePath });
+		scheduler.add({
+			id: "job",
+			trigger: { cron },
+			action: context => runs.push(context),
+			catchUp,
+		});
+		await scheduler.start();
+		return runs;
+	};
+
+	beforeEach(async () => {
+		dir = await fs.mkdtemp(path.join(os.tmpdir(), "wikari-"));
+		statePath = path.join(dir, "schedule.json");
+	});
+
+	afterEach(async () => {
+		scheduler.stop();
+		await fs.rm(dir, { recursive: true, force: true });
+	});
+
+	it("rejects invalid triggers", () => {
+		scheduler = new Scheduler();
+		assert.throws(() =>
+			scheduler.add({ id: "a", trigger: { cron: "* *" }, action: () => {} }),
+		);
+		assert.throws(() =>
+			scheduler.add({
+				id: "b",
+				trigger: { solar: "sunset" },
+				action: () => {},
+			}),
+		);
+	});
+
+	it("skips missed runs by default", async () => {
+		await lastRun("job", 10 * 60_000);
+		assert.deepEqual(await catchUp("skip"), []);
+	});
+
+	it("catches up on the latest missed run", async () => {
+		await lastRun("job", 10 * 60_000);
+		const runs = await catchUp("latest");
+
+		assert.equal(runs.length, 1);
+		assert.equal(runs[0].missed, true);
+		assert.ok(Date.now() - runs[0].scheduledAt.getTime() <= 60_000);
+	});
+
+	it("catches up on every missed run, oldest first", async () => {
+		await lastRun("job", 10 * 60_000 + 30_000);
+		const runs = await catchUp("all");
+
+		assert.ok(runs.length >= 10 && runs.length <= 11);
+		const times = runs.map(run => run.scheduledAt.getTime());
+		assert.deepEqual(
+			times,
+			[...times].sort((a, b) => a - b),
+		);
+
+		// and stores the last one
+		const state = JSON.parse(await fs.readFile(statePath, "utf-8"));
+		assert.equal(state.job, runs[runs.length - 1].scheduledAt.toISOString());
+	});
+
+	it("does not step through every run missed a long time ago", async () => {
+		await lastRun("job", 365 * 24 * 60 * 60_000);
+
+		const start = Date.now();
+		const latest = await catchUp("latest");
+		assert.equal(latest.length, 1);
+		assert.ok(Date.now() - latest[0].scheduledAt.getTime() <= 60_000);
+
+		scheduler.stop();
+		await lastRun("job", 365 * 24 * 60 * 60_000);
+		assert.equal((await catchUp("all")).length, 100);
+		assert.ok(Date.now() - start < 2000);
+	});
+
+	it("finds a sparse run missed long ago", async () => {
+		// the window searched in has to grow to up to a year
+		await lastRun("job", 2 * 365 * 24 * 60 * 60_000);
+		const runs = await catchUp("latest", "0 0 1 1 *");
+
+		assert.equal(runs.length, 1);
+		assert.equal(runs[0].scheduledAt.getUTCMonth(), 0);
+		assert.equal(runs[0].scheduledAt.getUTCDate(), 1);
+		assert.ok(Date.now() - runs[0].scheduledAt.getTime() <= 366 * 86_400_000);
+	});
+});
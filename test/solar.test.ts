@@ -0,0 +1,67 @@
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+import { getSolarTimes, nextSolarOccurrence } from "../src/solar";
+
+const BERLIN = [52.52, 13.405] as const;
+const TROMSO = [69.65, 18.96] as const;
+const MIDSUMMER = new Date("2024-06-21T12:00:00Z");
+
+// published times are rounded to the minute, and
+// refraction makes them differ a bit between sources
+const assertNear = (actual: Date | undefined, expected: string) => {
+	assert.ok(actual, `expected ${expected}, got undefined`);
+	const difference = Math.abs(actual.getTime() - new Date(expected).getTime());
+	assert.ok(
+		difference <= 2 * 60_000,
+		`expected ${expected}, got ${actual.toISOString()}`,
+	);
+};
+
+describe("getSolarTimes", () => {
+	it("computes the times of the sun in Berlin at midsummer", () => {
+		const times = getSolarTimes(MIDSUMMER, ...BERLIN);
+
+		assertNear(times.sunrise, "2024-06-21T02:43:00Z");
+		assertNear(times.solarNoon, "2024-06-21T11:09:00Z");
+		assertNear(times.sunset, "2024-06-21T19:33:00Z");
+	});
+
+	it("puts civil twilight before sunrise and after sunset", () => {
+		const { dawn, sunrise, sunset, dusk } = getSolarTimes(MIDSUMMER, ...BERLIN);
+
+		assert.ok(dawn && sunrise && sunset && dusk);
+		assert.ok(dawn < sunrise);
+		assert.ok(sunset < dusk);
+	});
+
+	it("has no sunrise or sunset during the midnight sun", () => {
+		const times = getSolarTimes(MIDSUMMER, ...TROMSO);
+
+		assert.equal(times.sunrise, undefined);
+		assert.equal(times.sunset, undefined);
+		assert.ok(times.solarNoon);
+	});
+});
+
+describe("nextSolarOccurrence", () => {
+	it("applies the offset", () => {
+		assertNear(
+			nextSolarOccurrence("sunset", MIDSUMMER, ...BERLIN, -30 * 60_000),
+			"2024-06-21T19:03:00Z",
+		);
+	});
+
+	it("moves on to the next day once the event has passed", () => {
+		assertNear(
+			nextSolarOccurrence("sunrise", MIDSUMMER, ...BERLIN),
+			"2024-06-22T02:43:00Z",
+		);
+	});
+
+	it("waits for the end of the midnight sun", () => {
+		const sunrise = nextSolarOccurrence("sunrise", MIDSUMMER, ...TROMSO);
+
+		assert.ok(sunrise);
+		assert.equal(sunrise.getUTCMonth(), 6);
+	});
+});
@@ -0,0 +1,151 @@
+import assert from "assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { Bulb } from "../src/bulb";
+import { WikariClient } from "../src/client";
+import { WIZ_BULB_LISTEN_PORT } from "../src/constants";
+import { FakeBulb } from "../src/fake-bulb";
+import { MemoryNetwork } from "../src/memory-transport";
+import { EASINGS, interpolatePilot } from "../src/transition";
+import { Pilot } from "../src/types";
+import { WikariErrorCode } from "../src/wikari-error";
+
+describe("interpolatePilot", () => {
+	it("interpolates dimming, temperature and channels", () => {
+		assert.deepEqual(
+			interpolatePilot(
+				{ dimming: 20, temp: 2000 },
+				{ dimming: 60, temp: 4000 },
+				0.5,
+			),
+			{ dimming: 40, temp: 3000, state: true },
+		);
+		assert.deepEqual(
+			interpolatePilot({ r: 255, g: 0, b: 0 }, { r: 0, g: 0, b: 255 }, 0.25),
+			{ r: 191, g: 0, b: 64, c: 0, w: 0, state: true },
+		);
+	});
+
+	it("fades colors in from black when coming from white", () => {
+		const frame = interpolatePilot({ temp: 3000 }, { r: 200 }, 0.5);
+		assert.equal(frame.r, 100);
+	});
+
+	it("fades in from and out to the lowest dimming", () => {
+		assert.equal(
+			interpolatePilot({ state: false }, { dimming: 90 }, 0.5).dimming,
+			50,
+		);
+
+		const fadeOut = interpolatePilot({ dimming: 90 }, { state: false }, 0.5);
+		assert.equal(fadeOut.dimming, 50);
+		// the bulb is only turned off at the end
+		assert.equal(fadeOut.state, true);
+	});
+
+	it("applies what cannot be interpolated at the end", () => {
+		const to = { sceneId: 4, dimming: 50 };
+
+		assert.equal(interpolatePilot({ dimming: 10 }, to, 0.5).sceneId, undefined);
+		assert.deepEqual(interpolatePilot({ dimming: 10 }, to, 1), to);
+	});
+
+	it("has easings that start at 0 and end at 1", () => {
+		for (const ease of Object.values(EASINGS)) {
+			assert.equal(ease(0), 0);
+			assert.equal(ease(1), 1);
+		}
+	});
+});
+
+describe("Bulb.transition", () => {
+	let fake: FakeBulb;
+	let bulb: Bulb;
+	// the pilots sent to the bulb
+	let frames: Pilot[];
+
+	beforeEach(async () => {
+		const network = new MemoryNetwork();
+		fake = new FakeBulb({ transport: network.transport("10.0.0.5") });
+		await fake.listen(WIZ_BULB_LISTEN_PORT);
+
+		frames = [];
+		fake.transport.on("message", data => {
+			const message = JSON.parse(data.toString());
+			if (message.method == "setPilot") frames.push(message.params);
+		});
+
+		const client = new WikariClient({
+			transport: network.transport("10.0.0.2"),
+		});
+		bulb = client.bulb("10.0.0.5");
+		await client.open();
+	});
+
+	afterEach(async () => {
+		bulb.closeConnection();
+		await fake.close();
+	});
+
+	it("sends frames and ends at the target", async () => {
+		assert.equal(
+			await bulb.transition({ dimming: 20 }, { durationMs: 100, fps: 50 }),
+			true,
+		);
+
+		assert.ok(frames.length > 2);
+		assert.deepEqual(frames[frames.length - 1], { dimming: 20 });
+		// the frames go down from where the bulb was
+		const dimmings = frames.map(frame => frame.dimming as number);
+		assert.deepEqual(
+			dimmings,
+			[...dimmings].sort((a, b) => b - a),
+		);
+		assert.equal(fake.pilot.dimming, 20);
+	});
+
+	it("starts from the given pilot", async () => {
+		await bulb.transition(
+			{ dimming: 20 },
+			{ durationMs: 50, fps: 50, from: { dimming: 60 } },
+		);
+
+		assert.equal(frames[0].dimming, 60);
+	});
+
+	it("is cancelled by a newer transition", async () => {
+		const first = bulb.transition({ dimming: 10 }, { durationMs: 1000 });
+		await new Promise(resolve => setTimeout(resolve, 50));
+		const second = bulb.transition({ dimming: 80 }, { durationMs: 50 });
+
+		assert.equal(await first, false);
+		assert.equal(await second, true);
+		assert.equal(fake.pilot.dimming, 80);
+	});
+
+	it("stops when the signal is aborted", async () => {
+		const controller = new AbortController();
+		const transition = bulb.transition(
+			{ dimming: 10 },
+			{ durationMs: 1000, signal: controller.signal },
+		);
+		await new Promise(resolve => setTimeout(resolve, 50));
+		controller.abort();
+
+		assert.equal(await transition, false);
+		assert.notEqual(fake.pilot.dimming, 10);
+	});
+
+	it("only turns off a bulb that is off", async () => {
+		fake.setPilot({ state: false });
+		await bulb.transition({ state: false }, { durationMs: 100 });
+
+		assert.deepEqual(frames, [{ state: false }]);
+	});
+
+	it("rejects frame rates out of range", async () => {
+		await assert.rejects(
+			bulb.transition({ dimming: 10 }, { durationMs: 100, fps: 0 }),
+			{ code: WikariErrorCode.ArgumentOutOfRange },
+		);
+	});
+});
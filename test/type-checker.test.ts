@@ -0,0 +1,105 @@
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+import { checkType, makeTypeTemplate, validate } from "../src/type-checker";
+
+const template = makeTypeTemplate({
+	name: ["string", true],
+	dimming: ["number", false, { min: 0, max: 100 }],
+	speed: ["number", false, { integer: true, min: 1 }],
+	mode: ["string", false, { enum: ["once", "loop"] }],
+	id: [["number", "string"], false],
+	keyframes: [
+		"array",
+		false,
+		{ items: { at: ["number", true, { min: 0, max: 1 }] } },
+	],
+	range: ["array", false, { items: ["number", true] }],
+	result: {
+		mac: ["string", true],
+	},
+});
+
+const valid = { name: "desk", result: { mac: "a8bb50d46a1c" } };
+
+describe("validate", () => {
+	it("accepts objects that match the template", () => {
+		assert.deepEqual(
+			validate(template, {
+				...valid,
+				dimming: 100,
+				speed: 3,
+				mode: "loop",
+				id: "x",
+				keyframes: [{ at: 0 }, { at: 1 }],
+				range: [2200, 6500],
+			}),
+			[],
+		);
+		assert.equal(checkType(template, valid), true);
+	});
+
+	it("reports missing required values and wrong types", () => {
+		const diagnostics = validate(template, { name: 5, result: {} });
+
+		assert.deepEqual(
+			diagnostics.map(({ path, expected, received }) => ({
+				path,
+				expected,
+				received,
+			})),
+			[
+				{ path: "name", expected: "string", received: 5 },
+				{ path: "result.mac", expected: "string", received: undefined },
+			],
+		);
+		assert.equal(diagnostics[0].message, "name: expected string, got 5");
+		assert.equal(checkType(template, { name: 5, result: {} }), false);
+	});
+
+	it("reports values out of range along with the range", () => {
+		const [diagnostic] = validate(template, { ...valid, dimming: 140 });
+
+		assert.equal(diagnostic.path, "dimming");
+		assert.equal(diagnostic.expected, "0..100");
+		assert.equal(diagnostic.min, 0);
+		assert.equal(diagnostic.max, 100);
+		assert.equal(diagnostic.message, "dimming: expected 0..100, got 140");
+	});
+
+	it("checks integers, open ranges and enums", () => {
+		assert.deepEqual(
+			validate(template, { ...valid, speed: 0.5, mode: "twice" }).map(
+				d => d.message,
+			),
+			[
+				"speed: expected an integer, got 0.5",
+				"speed: expected >= 1, got 0.5",
+				'mode: expected one of "once", "loop", got "twice"',
+			],
+		);
+	});
+
+	it("accepts any type of a union", () => {
+		assert.deepEqual(validate(template, { ...valid, id: 4 }), []);
+		assert.equal(
+			validate(template, { ...valid, id: true })[0].message,
+			"id: expected number | string, got true",
+		);
+	});
+
+	it("checks every item of an array with its path", () => {
+		assert.deepEqual(
+			validate(template, {
+				...valid,
+				keyframes: [{ at: 0 }, { at: 2 }, "a"],
+				range: [1, "2"],
+			}).map(d => d.path),
+			["keyframes[1].at", "keyframes[2]", "range[1]"],
+		);
+	});
+
+	it("rejects values that are not objects", () => {
+		for (const value of [null, [], "desk", undefined])
+			assert.equal(validate(template, value)[0].expected, "an object");
+	});
+});
@@ -0,0 +1,130 @@
+import assert from "assert/strict";
+import { IncomingMessage } from "http";
+import { beforeEach, describe, it } from "node:test";
+import { Duplex } from "stream";
+import { MAX_WEBSOCKET_FRAME_BYTES } from "../src/constants";
+import { WebSocketConnection } from "../src/websocket";
+
+// a frame the way a client sends it, masked
+const frame = (opcode: number, payload: Buffer, masked = true) => {
+	const mask = Buffer.from([1, 2, 3, 4]);
+	let header: Buffer;
+	if (payload.length < 126)
+		header = Buffer.from([0x80 | opcode, payload.length]);
+	else if (payload.length < 0x10000) {
+		header = Buffer.from([0x80 | opcode, 126, 0, 0]);
+		header.writeUInt16BE(payload.length, 2);
+	} else {
+		header = Buffer.alloc(10);
+		header[0] = 0x80 | opcode;
+		header[1] = 127;
+		header.writeBigUInt64BE(BigInt(payload.length), 2);
+	}
+
+	if (!masked) return Buffer.concat([header, payload]);
+
+	header[1] |= 0x80;
+	const body = Buffer.from(payload.map((byte, i) => byte ^ mask[i % 4]));
+	return Buffer.concat([header, mask, body]);
+};
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe("WebSocketConnection", () => {
+	let socket: Duplex;
+	let written: Buffer[];
+	let connection: WebSocketConnection;
+
+	// the close code sent by the server, if it closed the connection
+	const closeCode = () => {
+		// the first chunk is the handshake
+		const close = written.slice(1).find(chunk => (chunk[0] & 0x0f) == 0x8);
+		return close && close.length >= 4 ? close.readUInt16BE(2) : undefined;
+	};
+
+	beforeEach(() => {
+		written = [];
+		socket = new Duplex({
+			read() {},
+			write(chunk, _, callback) {
+				written.push(chunk);
+				callback();
+			},
+		});
+
+		connection = WebSocketConnection.accept(
+			{
+				headers: {
+					"upgrade": "websocket",
+					"sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+				},
+			} as unknown as IncomingMessage,
+			socket,
+		) as WebSocketConnection;
+	});
+
+	it("completes the handshake", () => {
+		const response = written[0].toString();
+		assert.match(response, /^HTTP\/1.1 101 /);
+		assert.match(
+			response,
+			/Sec-WebSocket-Accept: s3pPLMBiTxaQ9kYGzzhZRbK\+xOo=/,
+		);
+	});
+
+	it("sends text messages", () => {
+		connection.send("hi");
+		assert.deepEqual([...written[1]], [0x81, 2, ...Buffer.from("hi")]);
+	});
+
+	it("answers pings", async () => {
+		socket.push(frame(0x9, Buffer.from("ping")));
+		await tick();
+
+		assert.deepEqual([...written[1]], [0x8a, 4, ...Buffer.from("ping")]);
+	});
+
+	it("takes many frames in one chunk", async () => {
+		const message = frame(0x1, Buffer.alloc(1000, "a"));
+		const count = Math.ceil((2 * MAX_WEBSOCKET_FRAME_BYTES) / message.length);
+		socket.push(Buffer.concat(Array(count).fill(message)));
+		await tick();
+
+		assert.equal(connection.open, true);
+	});
+
+	it("takes frames split over chunks", async () => {
+		const ping = frame(0x9, Buffer.from("ping"));
+		socket.push(ping.subarray(0, 3));
+		await tick();
+		socket.push(ping.subarray(3));
+		await tick();
+
+		assert.equal(written.length, 2);
+	});
+
+	it("closes with 1009 on frames that are too large", async () => {
+		socket.push(frame(0x2, Buffer.alloc(MAX_WEBSOCKET_FRAME_BYTES + 1)));
+		await tick();
+
+		assert.equal(connection.open, false);
+		assert.equal(closeCode(), 1009);
+	});
+
+	it("closes with 1002 on frames that are not masked", async () => {
+		socket.push(frame(0x1, Buffer.from("hi"), false));
+		await tick();
+
+		assert.equal(connection.open, false);
+		assert.equal(closeCode(), 1002);
+	});
+
+	it("closes when the client does", async () => {
+		let closed = false;
+		connection.on("close", () => (closed = true));
+		socket.push(frame(0x8, Buffer.alloc(0)));
+		await tick();
+
+		assert.equal(closed, true);
+	});
+});